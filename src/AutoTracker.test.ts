@@ -0,0 +1,147 @@
+import { createUmamiClient, UmamiClient } from './UmamiClient';
+import { AutoTracker } from './AutoTracker';
+import { Transport } from './Transport';
+
+describe('AutoTracker', () => {
+  let onPageView: jest.Mock;
+  let tracker: AutoTracker;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    history.replaceState(null, '', '/start');
+    onPageView = jest.fn();
+  });
+
+  afterEach(() => {
+    tracker.stop();
+    jest.useRealTimers();
+  });
+
+  it('should track the first page view on start', () => {
+    tracker = new AutoTracker(onPageView);
+    tracker.start();
+
+    expect(onPageView).toHaveBeenCalledTimes(1);
+    expect(onPageView).toHaveBeenCalledWith();
+  });
+
+  it('should track pushState navigations with the previous URL as referrer', () => {
+    tracker = new AutoTracker(onPageView, { delay: 0 });
+    tracker.start();
+
+    history.pushState(null, '', '/next');
+    jest.runAllTimers();
+
+    expect(onPageView).toHaveBeenCalledTimes(2);
+    expect(onPageView).toHaveBeenLastCalledWith('http://localhost/start');
+  });
+
+  it('should track each route change only once', () => {
+    tracker = new AutoTracker(onPageView, { delay: 0 });
+    tracker.start();
+
+    history.pushState(null, '', '/next');
+    history.replaceState({ scroll: 100 }, '', '/next');
+    jest.runAllTimers();
+
+    expect(onPageView).toHaveBeenCalledTimes(2);
+  });
+
+  it('should skip routes replaced before the delay runs out', () => {
+    tracker = new AutoTracker(onPageView, { delay: 300 });
+    tracker.start();
+
+    history.pushState(null, '', '/redirecting');
+    history.replaceState(null, '', '/target');
+    jest.advanceTimersByTime(300);
+
+    expect(onPageView).toHaveBeenCalledTimes(2);
+    expect(onPageView).toHaveBeenLastCalledWith('http://localhost/start');
+  });
+
+  it('should track popstate and hashchange navigations', () => {
+    // Change the URL without going through the patched methods, like the browser does
+    const navigate = (url: string) => History.prototype.pushState.call(history, null, '', url);
+    tracker = new AutoTracker(onPageView, { delay: 0 });
+    tracker.start();
+
+    navigate('/previous');
+    window.dispatchEvent(new PopStateEvent('popstate'));
+    jest.runAllTimers();
+
+    expect(onPageView).toHaveBeenCalledTimes(2);
+
+    navigate('/previous#section');
+    window.dispatchEvent(new HashChangeEvent('hashchange'));
+    jest.runAllTimers();
+
+    expect(onPageView).toHaveBeenCalledTimes(3);
+    expect(onPageView).toHaveBeenLastCalledWith('http://localhost/previous');
+  });
+
+  it('should ignore hash changes when hashes are excluded', () => {
+    tracker = new AutoTracker(onPageView, { delay: 0, excludeHash: true });
+    tracker.start();
+
+    history.pushState(null, '', '/start#section');
+    jest.runAllTimers();
+
+    expect(onPageView).toHaveBeenCalledTimes(1);
+  });
+
+  it('should restore the History API on stop', () => {
+    const originalPushState = history.pushState;
+    tracker = new AutoTracker(onPageView, { delay: 0 });
+    tracker.start();
+    expect(history.pushState).not.toBe(originalPushState);
+
+    tracker.stop();
+    history.pushState(null, '', '/after-stop');
+    jest.runAllTimers();
+
+    expect(history.pushState).toBe(originalPushState);
+    expect(onPageView).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('UmamiLogger autoTrack', () => {
+  let transport: Transport;
+  let client: UmamiClient;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    history.replaceState(null, '', '/home');
+    transport = { send: jest.fn().mockResolvedValue({ status: 200, data: {} }) };
+    client = createUmamiClient({ baseUrl: 'https://umami.is', websiteId: 'test-id', autoTrack: true, transport });
+  });
+
+  afterEach(() => {
+    client.reset();
+    jest.useRealTimers();
+  });
+
+  it('should track the initial page view and route changes', () => {
+    history.pushState(null, '', '/products?page=2');
+    jest.runAllTimers();
+
+    expect(transport.send).toHaveBeenCalledTimes(2);
+    expect(transport.send).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        body: expect.objectContaining({
+          payload: expect.objectContaining({
+            url: '/products?page=2',
+            referrer: 'http://localhost/home',
+          }),
+        }),
+      })
+    );
+  });
+
+  it('should stop tracking after stopAutoTrack', () => {
+    client.stopAutoTrack();
+    history.pushState(null, '', '/elsewhere');
+    jest.runAllTimers();
+
+    expect(transport.send).toHaveBeenCalledTimes(1);
+  });
+});
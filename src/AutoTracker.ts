@@ -0,0 +1,118 @@
+// Auto tracking options
+export interface AutoTrackOptions {
+    excludeSearch?: boolean;
+    excludeHash?: boolean;
+    delay?: number;
+}
+
+// Called for each page view, with the previous in-app URL after the first one
+export type PageViewHandler = (referrer?: string) => void;
+
+// Delay before tracking a route change, gives routers time to update the title
+const DEFAULT_DELAY = 300;
+
+type HistoryMethod = typeof history.pushState;
+
+/**
+ * Tracks page views of single page apps by watching the History API.
+ */
+export class AutoTracker {
+    private delay: number;
+
+    private currentUrl?: string;
+    private trackedHref?: string;
+    private timer?: ReturnType<typeof setTimeout>;
+    private cleanup: (() => void)[] = [];
+
+    constructor(private onPageView: PageViewHandler, private options: AutoTrackOptions = {}) {
+        this.delay = options.delay ?? DEFAULT_DELAY;
+    }
+
+    /**
+     * Track the current page and start watching for route changes.
+     */
+    start(): void {
+        if (this.cleanup.length > 0 || typeof window === 'undefined') return;
+
+        this.currentUrl = this.getUrl();
+        this.trackedHref = window.location.href;
+        this.onPageView();
+
+        this.patch('pushState');
+        this.patch('replaceState');
+        this.listen('popstate');
+        if (!this.options.excludeHash) {
+            this.listen('hashchange');
+        }
+    }
+
+    /**
+     * Stop watching for route changes and restore the History API.
+     */
+    stop(): void {
+        this.cleanup.forEach((restore) => restore());
+        this.cleanup = [];
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    /**
+     * Check if route changes are being watched.
+     */
+    isActive(): boolean {
+        return this.cleanup.length > 0;
+    }
+
+    private patch(method: 'pushState' | 'replaceState'): void {
+        const original: HistoryMethod = history[method];
+        const handleChange = () => this.handleChange();
+        const patched: HistoryMethod = function (this: History, ...args) {
+            const result = original.apply(this, args);
+            handleChange();
+            return result;
+        };
+
+        history[method] = patched;
+        this.cleanup.push(() => {
+            // Only restore if nobody patched on top of us in the meantime
+            if (history[method] === patched) {
+                history[method] = original;
+            }
+        });
+    }
+
+    private listen(type: string): void {
+        const listener = () => this.handleChange();
+        window.addEventListener(type, listener);
+        this.cleanup.push(() => window.removeEventListener(type, listener));
+    }
+
+    /**
+     * Track the new route once, ignoring changes that don't affect the tracked URL.
+     * A route replaced again before the delay runs out is skipped.
+     */
+    private handleChange(): void {
+        const url = this.getUrl();
+        if (url === this.currentUrl) return;
+
+        const href = window.location.href;
+        this.currentUrl = url;
+
+        if (this.timer) {
+            clearTimeout(this.timer);
+        }
+        this.timer = setTimeout(() => {
+            this.timer = undefined;
+            const referrer = this.trackedHref;
+            this.trackedHref = href;
+            this.onPageView(referrer);
+        }, this.delay);
+    }
+
+    private getUrl(): string {
+        const { pathname, search, hash } = window.location;
+        return pathname + (this.options.excludeSearch ? '' : search) + (this.options.excludeHash ? '' : hash);
+    }
+}
@@ -0,0 +1,179 @@
+import axios from 'axios';
+import UmamiLogger from './UmamiLogger';
+import { createAxiosTransport } from './Transport';
+import { Batcher, BatchEntry } from './Batcher';
+
+jest.mock('axios');
+
+const transport = createAxiosTransport(axios);
+
+const mockAxiosPost = axios.post as jest.MockedFunction<typeof axios.post>;
+
+const payload = {
+  hostname: 'localhost',
+  language: 'en-US',
+  referrer: '',
+  screen: '1024x768',
+  title: 'Test Title',
+  url: '/test',
+  website: 'test-id',
+};
+
+describe('Batcher', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should flush when maxSize is reached', async () => {
+    const send = jest.fn(async (entries: BatchEntry[]) => entries.map(() => ({})));
+    const batcher = new Batcher(send, { maxSize: 2 });
+
+    const first = batcher.add({ type: 'event', payload });
+    expect(send).not.toHaveBeenCalled();
+    const second = batcher.add({ type: 'event', payload });
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(send.mock.calls[0][0]).toHaveLength(2);
+    await expect(Promise.all([first, second])).resolves.toEqual([{}, {}]);
+  });
+
+  it('should flush after the interval', async () => {
+    const send = jest.fn(async (entries: BatchEntry[]) => entries.map(() => ({})));
+    const batcher = new Batcher(send, { interval: 1000 });
+
+    batcher.add({ type: 'event', payload });
+    jest.advanceTimersByTime(999);
+    expect(send).not.toHaveBeenCalled();
+    jest.advanceTimersByTime(1);
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(batcher.size()).toBe(0);
+  });
+
+  it('should resolve each caller with its own result', async () => {
+    const send = jest.fn(async () => [{ sessionId: 'a' }, undefined]);
+    const batcher = new Batcher(send);
+
+    const first = batcher.add({ type: 'event', payload });
+    const second = batcher.add({ type: 'event', payload });
+    await batcher.flush();
+
+    await expect(first).resolves.toEqual({ sessionId: 'a' });
+    await expect(second).resolves.toBeUndefined();
+  });
+
+  it('should reject each caller when sending throws', async () => {
+    const error = new Error('boom');
+    const batcher = new Batcher(jest.fn().mockRejectedValue(error));
+
+    const first = batcher.add({ type: 'event', payload });
+    const second = batcher.add({ type: 'event', payload });
+    await batcher.flush();
+
+    await expect(first).rejects.toBe(error);
+    await expect(second).rejects.toBe(error);
+  });
+});
+
+describe('UmamiLogger batch mode', () => {
+  let umami: UmamiLogger;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    UmamiLogger.resetInstance();
+    umami = UmamiLogger.getInstance();
+    umami.initialize({ baseUrl: 'https://umami.is', websiteId: 'test-id', batch: { maxSize: 3 }, transport });
+  });
+
+  afterEach(() => {
+    UmamiLogger.resetInstance();
+  });
+
+  it('should send buffered events to the batch endpoint', async () => {
+    mockAxiosPost.mockResolvedValue({ data: { size: 3, processed: 3, errors: 0, details: [] } });
+
+    const results = await Promise.all([
+      umami.logEvent('first'),
+      umami.trackPageView(),
+      umami.trackRevenue('purchase', 10, 'EUR'),
+    ]);
+
+    expect(mockAxiosPost).toHaveBeenCalledTimes(1);
+    expect(mockAxiosPost).toHaveBeenCalledWith('https://umami.is/api/batch', [
+      { type: 'event', payload: expect.objectContaining({ name: 'first' }) },
+      { type: 'event', payload: expect.objectContaining({ website: 'test-id' }) },
+      { type: 'event', payload: expect.objectContaining({ name: 'purchase' }) },
+    ]);
+    expect(results).toEqual([
+      { status: 'sent', response: {} },
+      { status: 'sent', response: {} },
+      { status: 'sent', response: {} },
+    ]);
+  });
+
+  it('should fail only the entries reported in the response details', async () => {
+    mockAxiosPost.mockResolvedValue({ data: { size: 2, processed: 1, errors: 1, details: [{ index: 1 }] } });
+
+    const first = umami.logEvent('first');
+    const second = umami.logEvent('second');
+    await umami.flushBatch();
+
+    await expect(first).resolves.toEqual({ status: 'sent', response: {} });
+    await expect(second).resolves.toEqual({ status: 'failed', error: expect.any(Error) });
+  });
+
+  it('should flush with sendBeacon when the page is hidden', async () => {
+    const sendBeacon = jest.fn().mockReturnValue(true);
+    Object.defineProperty(navigator, 'sendBeacon', { value: sendBeacon, writable: true, configurable: true });
+
+    umami.logEvent('before-leave');
+    window.dispatchEvent(new Event('pagehide'));
+
+    expect(sendBeacon).toHaveBeenCalledWith('https://umami.is/api/batch', expect.any(Blob));
+    expect(mockAxiosPost).not.toHaveBeenCalled();
+    delete (navigator as any).sendBeacon;
+  });
+
+  it('should resolve all entries as failed on a network error', async () => {
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+    mockAxiosPost.mockRejectedValue(new Error('Network error'));
+
+    const result = umami.logEvent('first');
+    await umami.flushBatch();
+
+    await expect(result).resolves.toEqual({ status: 'failed', error: expect.any(Error) });
+    expect(consoleSpy).toHaveBeenCalledWith('Error sending data:', expect.any(Error));
+    consoleSpy.mockRestore();
+  });
+
+  it('should resolve entries as failed when the batch cannot be queued', async () => {
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+    const storage = {
+      load: () => [],
+      save: () => {
+        throw new Error('Storage full');
+      },
+    };
+    mockAxiosPost.mockRejectedValue(new Error('Network error'));
+    umami.initialize({
+      baseUrl: 'https://umami.is',
+      websiteId: 'test-id',
+      batch: { maxSize: 3 },
+      offlineQueue: { storage },
+      transport,
+    });
+
+    const result = umami.logEvent('first');
+    await umami.flushBatch();
+
+    await expect(result).resolves.toEqual({
+      status: 'failed',
+      error: expect.objectContaining({ message: 'Network error' }),
+    });
+    consoleSpy.mockRestore();
+  });
+});
@@ -0,0 +1,119 @@
+import { UmamiPayload, UmamiResponse } from './UmamiLogger';
+
+// A single entry of a batch request
+export interface BatchEntry {
+    type: string;
+    payload: UmamiPayload;
+}
+
+// Batch mode options
+export interface BatchOptions {
+    maxSize?: number;
+    interval?: number;
+}
+
+// Response from Umami's /api/batch endpoint
+export interface UmamiBatchResponse {
+    size?: number;
+    processed?: number;
+    errors?: number;
+    details?: { index: number; response?: unknown }[];
+    cache?: string;
+}
+
+// Function used by the batcher to deliver entries, resolves with one result per entry
+export type BatchSender<T = UmamiResponse | void> = (entries: BatchEntry[]) => Promise<T[]>;
+
+const DEFAULT_MAX_SIZE = 20;
+const DEFAULT_INTERVAL = 5000;
+
+/**
+ * Buffers entries and sends them together, resolving each caller with its own result.
+ */
+export class Batcher<T = UmamiResponse | void> {
+    private maxSize: number;
+    private interval: number;
+
+    private buffer: { entry: BatchEntry; resolve: (result: T) => void; reject: (error: unknown) => void }[] = [];
+    private timer?: ReturnType<typeof setTimeout>;
+
+    constructor(private send: BatchSender<T>, options: BatchOptions = {}) {
+        this.maxSize = Math.max(1, options.maxSize ?? DEFAULT_MAX_SIZE);
+        this.interval = options.interval ?? DEFAULT_INTERVAL;
+    }
+
+    /**
+     * Add an entry to the buffer. Flushes when maxSize is reached,
+     * otherwise after the configured interval.
+     *
+     * @param entry - Entry to send (payload and type)
+     * @returns Result of the entry, rejects when the sender throws
+     */
+    add(entry: BatchEntry): Promise<T> {
+        const result = new Promise<T>((resolve, reject) => {
+            this.buffer.push({ entry, resolve, reject });
+        });
+
+        if (this.buffer.length >= this.maxSize) {
+            this.flush();
+        } else if (!this.timer) {
+            this.timer = setTimeout(() => this.flush(), this.interval);
+        }
+
+        return result;
+    }
+
+    /**
+     * Get the number of buffered entries.
+     */
+    size(): number {
+        return this.buffer.length;
+    }
+
+    /**
+     * Send all buffered entries now.
+     */
+    async flush(): Promise<void> {
+        this.cancelTimer();
+        if (this.buffer.length === 0) return;
+
+        const pending = this.buffer;
+        this.buffer = [];
+
+        let results: T[];
+        try {
+            results = await this.send(pending.map((item) => item.entry));
+        } catch (error) {
+            pending.forEach((item) => item.reject(error));
+            return;
+        }
+
+        pending.forEach((item, index) => item.resolve(results[index]));
+    }
+
+    /**
+     * Drop all buffered entries without sending them.
+     *
+     * @param result - Result the callers of the dropped entries resolve with
+     */
+    discard(result: T): void {
+        this.cancelTimer();
+        const pending = this.buffer;
+        this.buffer = [];
+        pending.forEach((item) => item.resolve(result));
+    }
+
+    /**
+     * Send whatever is still buffered and stop the interval timer.
+     */
+    dispose(): void {
+        this.flush();
+    }
+
+    private cancelTimer(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+    }
+}
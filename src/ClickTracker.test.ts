@@ -0,0 +1,115 @@
+import { createUmamiClient, UmamiClient } from './UmamiClient';
+import { getElementEvent, startClickTracking } from './ClickTracker';
+import { Transport } from './Transport';
+
+describe('ClickTracker', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should read the event name and data attributes', () => {
+    document.body.innerHTML =
+      '<button data-umami-event="signup" data-umami-event-plan="pro" data-umami-event-source="hero">Go</button>';
+
+    expect(getElementEvent(document.querySelector('button')!)).toEqual({
+      name: 'signup',
+      data: { plan: 'pro', source: 'hero' },
+    });
+  });
+
+  it('should track clicks on children of annotated elements', () => {
+    document.body.innerHTML = '<div data-umami-event="card-click" data-umami-event-id="7"><span>Card</span></div>';
+    const onEvent = jest.fn();
+    const stop = startClickTracking(onEvent);
+
+    document.querySelector('span')!.click();
+
+    expect(onEvent).toHaveBeenCalledWith('card-click', { id: '7' }, { beacon: false });
+    stop();
+  });
+
+  it('should send link clicks with a beacon', () => {
+    document.body.innerHTML = '<a href="#pricing" data-umami-event="pricing-link">Pricing</a>';
+    const onEvent = jest.fn();
+    const stop = startClickTracking(onEvent);
+
+    const click = new MouseEvent('click', { bubbles: true, cancelable: true });
+    document.querySelector('a')!.dispatchEvent(click);
+
+    expect(onEvent).toHaveBeenCalledWith('pricing-link', {}, { beacon: true });
+    expect(click.defaultPrevented).toBe(false);
+    stop();
+  });
+
+  it('should ignore elements without the attribute', () => {
+    document.body.innerHTML = '<button>Plain</button>';
+    const onEvent = jest.fn();
+    const stop = startClickTracking(onEvent);
+
+    document.querySelector('button')!.click();
+
+    expect(onEvent).not.toHaveBeenCalled();
+    stop();
+  });
+
+  it('should support a custom attribute', () => {
+    document.body.innerHTML = '<button data-track="custom" data-track-kind="cta">Go</button>';
+    const onEvent = jest.fn();
+    const stop = startClickTracking(onEvent, { attribute: 'data-track' });
+
+    document.querySelector('button')!.click();
+
+    expect(onEvent).toHaveBeenCalledWith('custom', { kind: 'cta' }, { beacon: false });
+    stop();
+  });
+
+  it('should stop listening after teardown', () => {
+    document.body.innerHTML = '<button data-umami-event="signup">Go</button>';
+    const onEvent = jest.fn();
+    const stop = startClickTracking(onEvent);
+
+    stop();
+    document.querySelector('button')!.click();
+
+    expect(onEvent).not.toHaveBeenCalled();
+  });
+});
+
+describe('UmamiLogger click tracking', () => {
+  let transport: Transport;
+  let client: UmamiClient;
+
+  beforeEach(() => {
+    transport = { send: jest.fn().mockResolvedValue({ status: 200, data: {} }) };
+    document.body.innerHTML = '<button data-umami-event="signup" data-umami-event-plan="pro">Go</button>';
+  });
+
+  afterEach(() => {
+    client.reset();
+    document.body.innerHTML = '';
+  });
+
+  it('should send clicks through logEvent when enabled in config', () => {
+    client = createUmamiClient({ baseUrl: 'https://umami.is', websiteId: 'test-id', clickTracking: true, transport });
+
+    document.querySelector('button')!.click();
+
+    expect(transport.send).toHaveBeenCalledWith(
+      expect.objectContaining({
+        body: expect.objectContaining({
+          payload: expect.objectContaining({ name: 'signup', data: { plan: 'pro' } }),
+        }),
+      })
+    );
+  });
+
+  it('should return a teardown function from trackClicks', () => {
+    client = createUmamiClient({ baseUrl: 'https://umami.is', websiteId: 'test-id', transport });
+    const stop = client.trackClicks();
+
+    stop();
+    document.querySelector('button')!.click();
+
+    expect(transport.send).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,68 @@
+import { EventData, SendOptions } from './UmamiLogger';
+
+// Click tracking options
+export interface ClickTrackingOptions {
+    attribute?: string;
+    root?: Document | HTMLElement;
+}
+
+// Called for each tracked click
+export type ClickEventHandler = (eventName: string, eventData: EventData, options: SendOptions) => void;
+
+const DEFAULT_ATTRIBUTE = 'data-umami-event';
+
+/**
+ * Read the event name and data from an element's data-umami-event attributes.
+ * `data-umami-event-plan="pro"` becomes `{ plan: 'pro' }`.
+ *
+ * @param element - Element carrying the attributes
+ * @param attribute - Name of the event attribute
+ */
+export function getElementEvent(
+    element: Element,
+    attribute: string = DEFAULT_ATTRIBUTE
+): { name: string; data: EventData } | undefined {
+    const name = element.getAttribute(attribute);
+    if (!name) return undefined;
+
+    const prefix = `${attribute}-`;
+    const data: EventData = {};
+    Array.from(element.attributes).forEach(({ name: attributeName, value }) => {
+        if (attributeName.startsWith(prefix) && attributeName.length > prefix.length) {
+            data[attributeName.slice(prefix.length)] = value;
+        }
+    });
+
+    return { name, data };
+}
+
+/**
+ * Listen for clicks on elements with a data-umami-event attribute.
+ * Clicks on links are sent with sendBeacon so navigation is never delayed or lost.
+ *
+ * @param onEvent - Called with the event name, data and delivery options
+ * @param options - Attribute name and root element to listen on
+ * @returns Function that removes the listener
+ */
+export function startClickTracking(onEvent: ClickEventHandler, options: ClickTrackingOptions = {}): () => void {
+    const attribute = options.attribute || DEFAULT_ATTRIBUTE;
+    const root = options.root || document;
+
+    const listener = (event: Event) => {
+        const target = event.target;
+        if (!target || typeof (target as Element).closest !== 'function') return;
+
+        const element = (target as Element).closest(`[${attribute}]`);
+        if (!element) return;
+
+        const tracked = getElementEvent(element, attribute);
+        if (!tracked) return;
+
+        const link = element.closest('a[href]');
+        onEvent(tracked.name, tracked.data, { beacon: !!link });
+    };
+
+    // Capture phase, so handlers that stop propagation don't hide the click
+    root.addEventListener('click', listener, true);
+    return () => root.removeEventListener('click', listener, true);
+}
@@ -0,0 +1,172 @@
+import { createUmamiClient } from './UmamiClient';
+import UmamiLogger from './UmamiLogger';
+import { ConsentManager } from './Consent';
+import { PayloadValidationError } from './PayloadValidator';
+import { TransportError } from './Transport';
+import { createRecordingTransport } from './testing';
+
+describe('ConsentManager', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should default to pending', () => {
+    expect(new ConsentManager().getState()).toBe('pending');
+  });
+
+  it('should persist the state', () => {
+    new ConsentManager('consent').setState('granted');
+
+    expect(localStorage.getItem('consent')).toBe('granted');
+    expect(new ConsentManager('consent').getState()).toBe('granted');
+  });
+
+  it('should forget the state when set back to pending', () => {
+    const manager = new ConsentManager('consent');
+    manager.setState('denied');
+    manager.setState('pending');
+
+    expect(localStorage.getItem('consent')).toBeNull();
+  });
+
+  it('should not touch storage when persistence is off', () => {
+    new ConsentManager('consent', false).setState('granted');
+
+    expect(localStorage.getItem('consent')).toBeNull();
+  });
+
+  it('should drop the oldest held events beyond the limit', () => {
+    const manager = new ConsentManager();
+    for (let i = 0; i < 105; i++) {
+      manager.hold({ data: { payload: { website: 'id', hostname: '', language: '', referrer: '', screen: '', title: '', url: `/${i}` }, type: 'event' } });
+    }
+
+    expect(manager.size()).toBe(100);
+    expect(manager.setState('granted')[0].data.payload.url).toBe('/5');
+  });
+});
+
+describe('Consent', () => {
+  const config = { baseUrl: 'https://umami.is', websiteId: 'test-id', requireConsent: true };
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should hold events until consent is granted', async () => {
+    const transport = createRecordingTransport();
+    const client = createUmamiClient({ ...config, transport });
+
+    await client.trackEvent('signup');
+    await client.trackPageView('/pricing');
+    expect(transport.getRequests()).toHaveLength(0);
+
+    client.setConsent('granted');
+    await Promise.resolve();
+
+    expect(transport.getRequests()).toHaveLength(2);
+    expect(transport.getRequests()).toContainEqual(
+      expect.objectContaining({
+        body: expect.objectContaining({ payload: expect.objectContaining({ name: 'signup' }) }),
+      })
+    );
+
+    await client.trackEvent('checkout');
+    expect(transport.getRequests()).toHaveLength(3);
+    client.reset();
+  });
+
+  it('should discard held events when consent is denied', async () => {
+    const transport = createRecordingTransport();
+    const client = createUmamiClient({ ...config, transport });
+
+    await client.trackEvent('signup');
+    client.setConsent('denied');
+    await client.trackEvent('checkout');
+
+    expect(transport.getRequests()).toHaveLength(0);
+    expect(client.getConsent()).toBe('denied');
+    client.reset();
+  });
+
+  it('should restore the decision on the next visit', async () => {
+    createUmamiClient({ ...config, transport: createRecordingTransport() }).setConsent('granted');
+
+    const transport = createRecordingTransport();
+    const client = createUmamiClient({ ...config, transport });
+    await client.trackEvent('signup');
+
+    expect(client.getConsent()).toBe('granted');
+    expect(transport.getRequests()).toHaveLength(1);
+    client.reset();
+  });
+
+  it('should track normally when consent is not required', async () => {
+    const transport = createRecordingTransport();
+    const client = createUmamiClient({ baseUrl: 'https://umami.is', websiteId: 'test-id', transport });
+
+    await client.trackEvent('signup');
+
+    expect(client.getConsent()).toBe('pending');
+    expect(transport.getRequests()).toHaveLength(1);
+    client.reset();
+  });
+
+  it('should keep an opt-out across reloads', async () => {
+    const transport = createRecordingTransport();
+    createUmamiClient({ baseUrl: 'https://umami.is', websiteId: 'test-id', transport }).optOut();
+
+    const client = createUmamiClient({ baseUrl: 'https://umami.is', websiteId: 'test-id', transport });
+    await client.trackEvent('signup');
+
+    expect(client.getConsent()).toBe('denied');
+    expect(transport.getRequests()).toHaveLength(0);
+    client.reset();
+  });
+
+  it('should log errors of held events sent on grant', async () => {
+    const transport = createRecordingTransport();
+    const logger = { warn: jest.fn(), error: jest.fn() };
+    const client = createUmamiClient({ ...config, transport, logger, validation: { strict: true } });
+
+    client.trackEvent('signup', { at: new Date() });
+    client.setConsent('granted');
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(logger.error).toHaveBeenCalledWith('Error tracking event:', expect.any(PayloadValidationError));
+    expect(transport.getRequests()).toHaveLength(0);
+    client.reset();
+  });
+
+  it('should drop queued events on opt-out', async () => {
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+    const transport = { send: jest.fn().mockRejectedValue(new TransportError('Network error')) };
+    const logger = new UmamiLogger();
+    logger.initialize({ baseUrl: 'https://umami.is', websiteId: 'test-id', offlineQueue: { storage: 'memory' }, transport });
+    await logger.logEvent('signup');
+    expect(await logger.getQueue()!.size()).toBe(1);
+
+    logger.optOut();
+    transport.send.mockResolvedValue({ status: 200, data: {} });
+    await logger.flushQueue();
+
+    expect(await logger.getQueue()!.size()).toBe(0);
+    expect(transport.send).toHaveBeenCalledTimes(1);
+    logger.dispose();
+    consoleSpy.mockRestore();
+  });
+
+  it('should drop buffered batch events on opt-out', async () => {
+    const transport = createRecordingTransport();
+    const logger = new UmamiLogger();
+    logger.initialize({ baseUrl: 'https://umami.is', websiteId: 'test-id', batch: { maxSize: 10 }, transport });
+
+    const result = logger.logEvent('signup');
+    logger.setConsent('denied');
+    await logger.flushBatch();
+
+    await expect(result).resolves.toEqual({ status: 'skipped', reason: 'consent' });
+    expect(transport.getRequests()).toHaveLength(0);
+    logger.dispose();
+  });
+});
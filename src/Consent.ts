@@ -0,0 +1,100 @@
+import { UmamiPayload, SendOptions } from './UmamiLogger';
+
+// Consent state of the visitor
+export type ConsentState = 'granted' | 'denied' | 'pending';
+
+// An event held back until consent is given
+export interface PendingEvent {
+    data: { payload: UmamiPayload; type: string };
+    options?: SendOptions;
+}
+
+const DEFAULT_STORAGE_KEY = 'umami.consent';
+const MAX_PENDING_EVENTS = 100;
+
+function isConsentState(value: unknown): value is ConsentState {
+    return value === 'granted' || value === 'denied' || value === 'pending';
+}
+
+/**
+ * Keeps the visitor's consent decision, persisted in localStorage when available,
+ * and buffers events in memory while the decision is pending.
+ */
+export class ConsentManager {
+    private state: ConsentState = 'pending';
+    private pending: PendingEvent[] = [];
+
+    /**
+     * @param storageKey - localStorage key for the persisted state
+     * @param persist - Whether to use localStorage at all (off in server mode)
+     */
+    constructor(private storageKey: string = DEFAULT_STORAGE_KEY, private persist: boolean = true) {
+        this.state = this.load();
+    }
+
+    /**
+     * Get the current consent state.
+     */
+    getState(): ConsentState {
+        return this.state;
+    }
+
+    /**
+     * Change and persist the consent state. Buffered events are dropped on denial
+     * and returned on grant, so the caller can send them.
+     *
+     * @param state - New consent state
+     */
+    setState(state: ConsentState): PendingEvent[] {
+        this.state = state;
+        this.save();
+
+        if (state === 'pending') return [];
+
+        const events = this.pending;
+        this.pending = [];
+        return state === 'granted' ? events : [];
+    }
+
+    /**
+     * Hold an event until the visitor decides. The oldest events are dropped once the buffer is full.
+     *
+     * @param event - Event to hold back
+     */
+    hold(event: PendingEvent): void {
+        this.pending.push(event);
+        if (this.pending.length > MAX_PENDING_EVENTS) {
+            this.pending.shift();
+        }
+    }
+
+    /**
+     * Get the number of buffered events.
+     */
+    size(): number {
+        return this.pending.length;
+    }
+
+    private load(): ConsentState {
+        try {
+            if (!this.persist || typeof window === 'undefined' || !window.localStorage) return 'pending';
+            const stored = window.localStorage.getItem(this.storageKey);
+            return isConsentState(stored) ? stored : 'pending';
+        } catch {
+            return 'pending';
+        }
+    }
+
+    private save(): void {
+        try {
+            if (!this.persist || typeof window === 'undefined' || !window.localStorage) return;
+            if (this.state === 'pending') {
+                window.localStorage.removeItem(this.storageKey);
+            } else {
+                window.localStorage.setItem(this.storageKey, this.state);
+            }
+        } catch {
+            // Storage unavailable, keep the state in memory only
+        }
+    }
+}
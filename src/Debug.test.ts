@@ -0,0 +1,104 @@
+import { describePayload, logGroup } from './Debug';
+import { createUmamiClient } from './UmamiClient';
+import { UmamiPayload } from './UmamiLogger';
+
+function createOutput() {
+  return { warn: jest.fn(), error: jest.fn(), log: jest.fn(), groupCollapsed: jest.fn(), groupEnd: jest.fn() };
+}
+
+describe('logGroup', () => {
+  it('should log labelled values in a collapsed group', () => {
+    const output = createOutput();
+
+    logGroup(output, 'Title', { Type: 'event', Response: undefined, Payload: { url: '/' } });
+
+    expect(output.groupCollapsed).toHaveBeenCalledWith('Title');
+    expect(output.log.mock.calls).toEqual([['Type:', 'event'], ['Payload:', { url: '/' }]]);
+    expect(output.groupEnd).toHaveBeenCalled();
+  });
+
+  it('should log a plain title without group support', () => {
+    const output = { warn: jest.fn(), error: jest.fn(), log: jest.fn() };
+
+    logGroup(output, 'Title', { Type: 'event' });
+
+    expect(output.log.mock.calls).toEqual([['Title'], ['Type:', 'event']]);
+  });
+
+  it('should describe events and page views', () => {
+    expect(describePayload({ name: 'signup' } as UmamiPayload)).toBe('event "signup"');
+    expect(describePayload({ url: '/pricing' } as UmamiPayload)).toBe('pageview /pricing');
+  });
+});
+
+describe('Debug and dry run', () => {
+  const config = { baseUrl: 'https://umami.is', websiteId: 'test-id' };
+
+  it('should log sent events with destination and response', async () => {
+    const output = createOutput();
+    const client = createUmamiClient({
+      ...config,
+      transport: { send: jest.fn().mockResolvedValue({ status: 200, data: { sessionId: 'session-1' } }) },
+      debug: true,
+      logger: output,
+    });
+
+    await client.trackEvent('signup');
+
+    expect(output.groupCollapsed).toHaveBeenCalledWith('[Umami] event "signup": sent');
+    expect(output.log).toHaveBeenCalledWith('Destination:', 'https://umami.is/api/send');
+    expect(output.log).toHaveBeenCalledWith('Response:', { sessionId: 'session-1' });
+  });
+
+  it('should log the block and filter decisions', async () => {
+    const output = createOutput();
+    const client = createUmamiClient({
+      ...config,
+      transport: { send: jest.fn() },
+      beforeSend: () => null,
+      debug: true,
+      logger: output,
+    });
+
+    await client.trackPageView('/pricing');
+    client.optOut();
+    await client.trackPageView('/pricing');
+
+    expect(output.groupCollapsed.mock.calls).toEqual([
+      ['[Umami] pageview /pricing: filtered (beforeSend)'],
+      ['[Umami] pageview /pricing: blocked (consent)'],
+    ]);
+    localStorage.clear();
+  });
+
+  it('should not log without the debug option', async () => {
+    const output = createOutput();
+    const client = createUmamiClient({
+      ...config,
+      transport: { send: jest.fn().mockResolvedValue({ status: 200, data: {} }) },
+      logger: output,
+    });
+
+    await client.trackEvent('signup');
+
+    expect(output.groupCollapsed).not.toHaveBeenCalled();
+  });
+
+  it('should run the pipeline without sending in dry run mode', async () => {
+    const transport = { send: jest.fn() };
+    const afterSend = jest.fn();
+    const client = createUmamiClient({
+      ...config,
+      transport,
+      beforeSend: (payload) => ({ ...payload, tag: 'dev' }),
+      plugins: [{ afterSend }],
+      dryRun: true,
+    });
+
+    const result = await client.trackEvent('signup');
+
+    expect(transport.send).not.toHaveBeenCalled();
+    expect(result).toEqual({ status: 'sent', response: {}, dryRun: true });
+    expect(afterSend).toHaveBeenCalledWith(expect.objectContaining({ tag: 'dev' }), {}, expect.any(Object));
+  });
+});
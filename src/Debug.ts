@@ -0,0 +1,39 @@
+import { UmamiPayload } from './UmamiLogger';
+import { LoggerLike } from './Emitter';
+
+/**
+ * Describe a payload in a few words, e.g. `event "signup"` or `pageview /pricing`.
+ *
+ * @param payload - Payload to describe
+ */
+export function describePayload(payload: UmamiPayload): string {
+    return payload.name ? `event "${payload.name}"` : `pageview ${payload.url}`;
+}
+
+/**
+ * Log a titled group of labelled values, collapsed where the output supports groups.
+ *
+ * @param output - Logger with a log method, e.g. console
+ * @param title - Group title
+ * @param entries - Labelled values, undefined values are left out
+ */
+export function logGroup(output: LoggerLike, title: string, entries: { [label: string]: unknown }): void {
+    const log = (...args: unknown[]) => (output.log ? output.log(...args) : output.warn(...args));
+    const grouped = typeof output.groupCollapsed === 'function' && typeof output.groupEnd === 'function';
+
+    if (grouped) {
+        output.groupCollapsed!(title);
+    } else {
+        log(title);
+    }
+
+    Object.keys(entries).forEach((label) => {
+        if (entries[label] !== undefined) {
+            log(`${label}:`, entries[label]);
+        }
+    });
+
+    if (grouped) {
+        output.groupEnd!();
+    }
+}
@@ -0,0 +1,183 @@
+import { Emitter } from './Emitter';
+import { createUmamiClient } from './UmamiClient';
+import { TransportError } from './Transport';
+import { createRecordingTransport } from './testing';
+import { UmamiPayload } from './UmamiLogger';
+
+const config = { baseUrl: 'https://umami.is', websiteId: 'test-id' };
+
+describe('Emitter', () => {
+  const payload = { url: '/' } as UmamiPayload;
+
+  it('should call handlers of the emitted type only', () => {
+    const emitter = new Emitter();
+    const sent = jest.fn();
+    const failed = jest.fn();
+    emitter.on('sent', sent);
+    emitter.on('failed', failed);
+
+    emitter.emit({ type: 'sent', payload, response: {} });
+
+    expect(sent).toHaveBeenCalledWith({ type: 'sent', payload, response: {} });
+    expect(failed).not.toHaveBeenCalled();
+  });
+
+  it('should remove handlers', () => {
+    const emitter = new Emitter();
+    const first = jest.fn();
+    const second = jest.fn();
+    const unsubscribe = emitter.on('sent', first);
+    emitter.on('sent', second);
+
+    unsubscribe();
+    emitter.off('sent', second);
+    emitter.emit({ type: 'sent', payload, response: {} });
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).not.toHaveBeenCalled();
+  });
+
+  it('should keep calling handlers after one throws', () => {
+    const emitter = new Emitter();
+    const handler = jest.fn();
+    emitter.on('sent', () => {
+      throw new Error('broken handler');
+    });
+    emitter.on('sent', handler);
+
+    emitter.emit({ type: 'sent', payload, response: {} });
+
+    expect(handler).toHaveBeenCalled();
+  });
+});
+
+describe('Lifecycle events', () => {
+  it('should emit sent with the response', async () => {
+    const client = createUmamiClient({ ...config, transport: createRecordingTransport({ sessionId: 'session-1' }) });
+    const handler = jest.fn();
+    client.on('sent', handler);
+
+    await client.trackEvent('signup');
+
+    expect(handler).toHaveBeenCalledWith({
+      type: 'sent',
+      payload: expect.objectContaining({ name: 'signup' }),
+      response: { sessionId: 'session-1' },
+    });
+  });
+
+  it('should emit blocked with the reason', async () => {
+    Object.defineProperty(navigator, 'doNotTrack', { value: '1', configurable: true });
+    const transport = createRecordingTransport();
+    const client = createUmamiClient({ ...config, transport, doNotTrack: true });
+    const handler = jest.fn();
+    client.on('blocked', handler);
+
+    await client.trackPageView();
+    await client.identify('user-1');
+
+    expect(transport.getRequests()).toHaveLength(0);
+    expect(client.getSessionId()).toBeUndefined();
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ type: 'blocked', reason: 'doNotTrack' }));
+    Object.defineProperty(navigator, 'doNotTrack', { value: null, configurable: true });
+  });
+
+  it('should emit blocked for domains outside the list', async () => {
+    const client = createUmamiClient({ ...config, transport: createRecordingTransport(), domains: ['example.com'] });
+    const handler = jest.fn();
+    client.on('blocked', handler);
+
+    await client.trackEvent('signup');
+
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ reason: 'domain' }));
+  });
+
+  it('should emit filtered for beforeSend and sampling', async () => {
+    const client = createUmamiClient({
+      ...config,
+      transport: createRecordingTransport(),
+      beforeSend: (payload) => (payload.name === 'internal' ? null : payload),
+      sampling: [{ event: 'scroll', rate: 0 }],
+    });
+    const handler = jest.fn();
+    client.on('filtered', handler);
+
+    await client.trackEvent('internal');
+    await client.trackEvent('scroll');
+
+    expect(handler.mock.calls.map(([event]) => event.reason)).toEqual(['beforeSend', 'sampled']);
+  });
+
+  it('should report HTTP failures to onError and failed handlers', async () => {
+    const error = new TransportError('Request failed with status 503', 503, { status: 503, data: {} });
+    const onError = jest.fn();
+    const log = { warn: jest.fn(), error: jest.fn() };
+    const client = createUmamiClient({
+      ...config,
+      transport: { send: jest.fn().mockRejectedValue(error) },
+      onError,
+      logger: log,
+    });
+    const handler = jest.fn();
+    client.on('failed', handler);
+
+    await client.trackEvent('signup');
+
+    const event = {
+      type: 'failed',
+      payload: expect.objectContaining({ name: 'signup' }),
+      reason: 'http',
+      error,
+      status: 503,
+      response: { status: 503, data: {} },
+    };
+    expect(onError).toHaveBeenCalledWith(event);
+    expect(handler).toHaveBeenCalledWith(event);
+    expect(log.error).toHaveBeenCalledWith('Error sending data:', error);
+  });
+
+  it('should report network failures and log nothing when silent', async () => {
+    const consoleError = jest.spyOn(console, 'error');
+    const onError = jest.fn();
+    const client = createUmamiClient({
+      ...config,
+      transport: { send: jest.fn().mockRejectedValue(new Error('Network error')) },
+      onError,
+      logger: false,
+    });
+
+    await client.trackEvent('signup');
+
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ reason: 'network', status: undefined }));
+    expect(consoleError).not.toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+
+  it('should not let throwing onError and onDrop callbacks break tracking', async () => {
+    const client = createUmamiClient({
+      ...config,
+      transport: { send: jest.fn().mockRejectedValue(new TransportError('Bad request', 400)) },
+      sampleRate: 0,
+      onError: () => {
+        throw new Error('onError failed');
+      },
+      onDrop: () => {
+        throw new Error('onDrop failed');
+      },
+      logger: false,
+    });
+
+    await expect(client.trackEvent('signup')).resolves.toEqual({ status: 'skipped', reason: 'sampled' });
+
+    client.initialize({
+      ...config,
+      transport: { send: jest.fn().mockRejectedValue(new TransportError('Bad request', 400)) },
+      onError: () => {
+        throw new Error('onError failed');
+      },
+      logger: false,
+    });
+    await expect(client.trackEvent('signup')).resolves.toEqual({ status: 'failed', error: expect.any(TransportError) });
+  });
+});
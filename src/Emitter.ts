@@ -0,0 +1,111 @@
+import { UmamiPayload, UmamiResponse } from './UmamiLogger';
+import { TransportResponse } from './Transport';
+import { DropReason } from './Sampler';
+
+// Why tracking is off for an event: Do Not Track, a domain outside `domains` or denied consent
+export type BlockedReason = 'doNotTrack' | 'domain' | 'consent';
+
+// Why an event was dropped by the client's filters
+export type FilteredReason = 'beforeSend' | 'invalid' | DropReason;
+
+// Why sending failed: no response, an error status or an entry rejected in a batch
+export type FailedReason = 'network' | 'http' | 'rejected';
+
+// The event was delivered
+export interface SentEvent {
+    type: 'sent';
+    payload: UmamiPayload;
+    response: UmamiResponse | void;
+}
+
+// Delivery failed
+export interface FailedEvent {
+    type: 'failed';
+    payload: UmamiPayload;
+    reason: FailedReason;
+    error: unknown;
+    status?: number;
+    response?: TransportResponse;
+}
+
+// Tracking is off for the event
+export interface BlockedEvent {
+    type: 'blocked';
+    payload: UmamiPayload;
+    reason: BlockedReason;
+}
+
+// The event was dropped before sending
+export interface FilteredEvent {
+    type: 'filtered';
+    payload: UmamiPayload;
+    reason: FilteredReason;
+}
+
+// Lifecycle events by name
+export interface ClientEventMap {
+    sent: SentEvent;
+    failed: FailedEvent;
+    blocked: BlockedEvent;
+    filtered: FilteredEvent;
+}
+
+// Handler for a lifecycle event
+export type ClientEventHandler<K extends keyof ClientEventMap> = (event: ClientEventMap[K]) => void;
+
+// Destination for the client's console output, false to stay silent
+export interface LoggerLike {
+    warn(...args: unknown[]): void;
+    error(...args: unknown[]): void;
+    log?(...args: unknown[]): void;
+    groupCollapsed?(...args: unknown[]): void;
+    groupEnd?(): void;
+}
+
+/**
+ * Minimal typed event emitter for client lifecycle events.
+ * A throwing handler doesn't stop the others or the tracking call.
+ */
+export class Emitter {
+    private handlers: { [K in keyof ClientEventMap]?: ClientEventHandler<K>[] } = {};
+
+    /**
+     * Register a handler.
+     *
+     * @param type - Event name
+     * @param handler - Called with the event object
+     * @returns Function that removes the handler
+     */
+    on<K extends keyof ClientEventMap>(type: K, handler: ClientEventHandler<K>): () => void {
+        const handlers = (this.handlers[type] || []) as ClientEventHandler<K>[];
+        this.handlers[type] = [...handlers, handler] as typeof this.handlers[K];
+        return () => this.off(type, handler);
+    }
+
+    /**
+     * Remove a handler.
+     *
+     * @param type - Event name
+     * @param handler - Handler passed to on()
+     */
+    off<K extends keyof ClientEventMap>(type: K, handler: ClientEventHandler<K>): void {
+        const handlers = (this.handlers[type] || []) as ClientEventHandler<K>[];
+        this.handlers[type] = handlers.filter((registered) => registered !== handler) as typeof this.handlers[K];
+    }
+
+    /**
+     * Call the handlers of an event.
+     *
+     * @param event - Event object, its type selects the handlers
+     */
+    emit<K extends keyof ClientEventMap>(event: ClientEventMap[K]): void {
+        const handlers = (this.handlers[event.type as K] || []) as ClientEventHandler<K>[];
+        handlers.forEach((handler) => {
+            try {
+                handler(event);
+            } catch {
+                // Observers must never break tracking
+            }
+        });
+    }
+}
@@ -0,0 +1,195 @@
+import { createUmamiClient, UmamiClient } from './UmamiClient';
+import { EngagementTracker, getScrollPercent } from './Engagement';
+import { createRecordingTransport } from './testing';
+
+let visibility: DocumentVisibilityState = 'visible';
+
+function setVisibility(state: DocumentVisibilityState) {
+  visibility = state;
+  document.dispatchEvent(new Event('visibilitychange'));
+}
+
+function scrollTo(y: number) {
+  Object.defineProperty(window, 'scrollY', { configurable: true, value: y });
+  window.dispatchEvent(new Event('scroll'));
+}
+
+describe('Engagement', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    visibility = 'visible';
+    Object.defineProperty(document, 'visibilityState', { configurable: true, get: () => visibility });
+    Object.defineProperty(document.documentElement, 'scrollHeight', { configurable: true, value: 4000 });
+    Object.defineProperty(window, 'innerHeight', { configurable: true, value: 1000 });
+    Object.defineProperty(window, 'scrollY', { configurable: true, value: 0 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('getScrollPercent', () => {
+    it('should measure the share of the page scrolled into view', () => {
+      expect(getScrollPercent()).toBe(25);
+      scrollTo(1000);
+      expect(getScrollPercent()).toBe(50);
+    });
+
+    it('should treat pages that fit the viewport as fully read', () => {
+      Object.defineProperty(document.documentElement, 'scrollHeight', { configurable: true, value: 800 });
+
+      expect(getScrollPercent()).toBe(100);
+    });
+  });
+
+  describe('EngagementTracker', () => {
+    it('should send one summary with scroll depth and active time when the page is hidden', () => {
+      const onSummary = jest.fn();
+      const tracker = new EngagementTracker(onSummary, () => ({ url: '/article', title: 'Article' }));
+      tracker.start();
+
+      scrollTo(2000);
+      jest.advanceTimersByTime(12000);
+      window.dispatchEvent(new Event('pagehide'));
+      window.dispatchEvent(new Event('pagehide'));
+      tracker.stop();
+
+      expect(onSummary).toHaveBeenCalledTimes(1);
+      expect(onSummary).toHaveBeenCalledWith(
+        'engagement',
+        { scrollDepth: 75, maxScroll: 75, activeTime: 12 },
+        { url: '/article', title: 'Article' },
+        true
+      );
+    });
+
+    it('should pause active time while the tab is hidden or idle', () => {
+      const onSummary = jest.fn();
+      const tracker = new EngagementTracker(onSummary, () => ({ url: '/', title: '' }), { idleTimeout: 5000 });
+      tracker.start();
+
+      jest.advanceTimersByTime(20000);
+      expect(tracker.getActiveTime()).toBe(5000);
+
+      window.dispatchEvent(new Event('keydown'));
+      jest.advanceTimersByTime(2000);
+      setVisibility('hidden');
+      jest.advanceTimersByTime(60000);
+      tracker.stop();
+
+      expect(tracker.getActiveTime()).toBe(7000);
+      expect(onSummary).toHaveBeenCalledWith('engagement', expect.objectContaining({ activeTime: 7 }), expect.any(Object), true);
+    });
+
+    it('should resume active time when the tab becomes visible again', () => {
+      const tracker = new EngagementTracker(jest.fn(), () => ({ url: '/', title: '' }));
+      tracker.start();
+
+      jest.advanceTimersByTime(1000);
+      setVisibility('hidden');
+      jest.advanceTimersByTime(10000);
+      setVisibility('visible');
+      jest.advanceTimersByTime(1000);
+      tracker.stop();
+
+      expect(tracker.getActiveTime()).toBe(2000);
+    });
+
+    it('should use custom thresholds and event name', () => {
+      const onSummary = jest.fn();
+      const tracker = new EngagementTracker(onSummary, () => ({ url: '/', title: '' }), {
+        eventName: 'read',
+        thresholds: [90, 10],
+      });
+      tracker.start();
+
+      scrollTo(1500);
+      tracker.flush();
+      tracker.stop();
+
+      expect(onSummary).toHaveBeenCalledWith('read', { scrollDepth: 10, maxScroll: 63, activeTime: 0 }, expect.any(Object), false);
+    });
+
+    it('should send a summary per route of a single page app', () => {
+      const onSummary = jest.fn();
+      let page = { url: '/', title: 'Home' };
+      const tracker = new EngagementTracker(onSummary, () => page);
+      tracker.start();
+
+      scrollTo(3000);
+      jest.advanceTimersByTime(3000);
+      page = { url: '/pricing', title: 'Pricing' };
+      scrollTo(0);
+      tracker.navigate();
+      jest.advanceTimersByTime(1000);
+      tracker.flush(true);
+      tracker.stop();
+
+      expect(onSummary.mock.calls).toEqual([
+        ['engagement', { scrollDepth: 100, maxScroll: 100, activeTime: 3 }, { url: '/', title: 'Home' }, false],
+        ['engagement', { scrollDepth: 25, maxScroll: 25, activeTime: 1 }, { url: '/pricing', title: 'Pricing' }, true],
+      ]);
+    });
+
+    it('should remove its listeners when stopped', () => {
+      const onSummary = jest.fn();
+      const tracker = new EngagementTracker(onSummary, () => ({ url: '/', title: '' }));
+      tracker.start();
+      tracker.stop();
+
+      window.dispatchEvent(new Event('pagehide'));
+
+      expect(onSummary).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('client', () => {
+    let client: UmamiClient;
+
+    afterEach(() => {
+      client.reset();
+      window.history.replaceState(null, '', '/');
+      document.title = '';
+    });
+
+    it('should send the summary with the URL and title of the page', async () => {
+      const transport = createRecordingTransport();
+      document.title = 'Article';
+      client = createUmamiClient({ baseUrl: 'https://umami.is', websiteId: 'test-id', engagement: true, transport });
+
+      jest.advanceTimersByTime(4000);
+      window.dispatchEvent(new Event('pagehide'));
+      await Promise.resolve();
+
+      expect(transport.getTrackedEvents()).toEqual([
+        {
+          type: 'event',
+          payload: expect.objectContaining({
+            name: 'engagement',
+            url: '/',
+            title: 'Article',
+            data: { scrollDepth: 25, maxScroll: 25, activeTime: 4 },
+          }),
+        },
+      ]);
+    });
+
+    it('should send the summary of the previous route on SPA navigations with autoTrack', async () => {
+      const transport = createRecordingTransport();
+      document.title = 'Home';
+      client = createUmamiClient({ baseUrl: 'https://umami.is', websiteId: 'test-id', autoTrack: true, engagement: true, transport });
+
+      window.history.pushState(null, '', '/pricing');
+      document.title = 'Pricing';
+      jest.advanceTimersByTime(300);
+      await Promise.resolve();
+
+      const events = transport.getTrackedEvents().map(({ payload }) => [payload.name || 'pageview', payload.url, payload.title]);
+      expect(events).toEqual([
+        ['pageview', '/', 'Home'],
+        ['engagement', '/', 'Home'],
+        ['pageview', '/pricing', 'Pricing'],
+      ]);
+    });
+  });
+});
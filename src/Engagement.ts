@@ -0,0 +1,209 @@
+import { EventData } from './UmamiLogger';
+
+// Scroll depth and active time tracking options
+export interface EngagementOptions {
+    eventName?: string;
+    thresholds?: number[];
+    idleTimeout?: number;
+}
+
+// Page an engagement summary belongs to
+export interface EngagementPage {
+    url: string;
+    title: string;
+}
+
+// Called with the summary of a page view
+export type EngagementHandler = (
+    eventName: string,
+    eventData: EventData,
+    page: EngagementPage,
+    pageHidden: boolean
+) => void;
+
+const ENGAGEMENT_EVENT_NAME = 'engagement';
+const DEFAULT_THRESHOLDS = [25, 50, 75, 100];
+const DEFAULT_IDLE_TIMEOUT = 30000;
+
+// Interactions that count as activity and end idleness
+const ACTIVITY_EVENTS = ['scroll', 'mousemove', 'mousedown', 'keydown', 'touchstart', 'wheel'];
+
+/**
+ * Share of the page that has been scrolled into view, in percent.
+ * Pages that fit into the viewport count as fully read.
+ */
+export function getScrollPercent(): number {
+    const height = document.documentElement.scrollHeight;
+    if (!height || height <= window.innerHeight) return 100;
+
+    return Math.min(100, ((window.scrollY + window.innerHeight) / height) * 100);
+}
+
+/**
+ * Measures how far visitors scroll and how long they are active on a page, and sends one
+ * summary per page view when the page is hidden or the single page app navigates away.
+ * Active time pauses while the tab is hidden or nobody interacted for `idleTimeout` ms.
+ */
+export class EngagementTracker {
+    private eventName: string;
+    private thresholds: number[];
+    private idleTimeout: number;
+
+    private page?: EngagementPage;
+    private maxScroll = 0;
+    private activeTime = 0;
+    private activeSince?: number;
+    private idleTimer?: ReturnType<typeof setTimeout>;
+    private reported = false;
+
+    private cleanup: (() => void)[] = [];
+
+    /**
+     * @param onSummary - Called with the event name, summary data and page of each page view
+     * @param getPage - Returns the URL and title of the current page
+     * @param options - Engagement options
+     */
+    constructor(
+        private onSummary: EngagementHandler,
+        private getPage: () => EngagementPage,
+        options: EngagementOptions = {}
+    ) {
+        this.eventName = options.eventName || ENGAGEMENT_EVENT_NAME;
+        this.thresholds = [...(options.thresholds || DEFAULT_THRESHOLDS)].sort((a, b) => a - b);
+        this.idleTimeout = options.idleTimeout ?? DEFAULT_IDLE_TIMEOUT;
+    }
+
+    /**
+     * Start measuring the current page.
+     */
+    start(): void {
+        if (this.cleanup.length > 0 || typeof window === 'undefined' || typeof document === 'undefined') return;
+
+        this.reset();
+
+        const onActivity = () => this.handleActivity();
+        const onScroll = () => this.updateScroll();
+        const onHidden = () => this.flush(true);
+        const onVisibilityChange = () => {
+            if (document.visibilityState === 'hidden') {
+                this.pause();
+                onHidden();
+            } else {
+                this.handleActivity();
+            }
+        };
+
+        ACTIVITY_EVENTS.forEach((type) => window.addEventListener(type, onActivity, { passive: true }));
+        window.addEventListener('scroll', onScroll, { passive: true });
+        window.addEventListener('pagehide', onHidden);
+        document.addEventListener('visibilitychange', onVisibilityChange);
+        this.cleanup.push(() => {
+            ACTIVITY_EVENTS.forEach((type) => window.removeEventListener(type, onActivity));
+            window.removeEventListener('scroll', onScroll);
+            window.removeEventListener('pagehide', onHidden);
+            document.removeEventListener('visibilitychange', onVisibilityChange);
+        });
+    }
+
+    /**
+     * Stop measuring, without sending a summary.
+     */
+    stop(): void {
+        this.cleanup.forEach((stop) => stop());
+        this.cleanup = [];
+        this.pause();
+    }
+
+    /**
+     * Send the summary of the current page and start measuring a route of a single page app.
+     */
+    navigate(): void {
+        if (this.cleanup.length === 0) return;
+
+        this.flush(false);
+        this.reset();
+    }
+
+    /**
+     * Send the summary of the current page, unless it was sent already or nothing was measured.
+     *
+     * @param pageHidden - Whether the page is being hidden, so the summary must survive unload
+     */
+    flush(pageHidden = false): void {
+        if (this.reported || !this.page) return;
+
+        this.updateScroll();
+        const activeTime = this.getActiveTime();
+        const scrollDepth = this.getScrollDepth();
+        if (activeTime === 0 && scrollDepth === 0) return;
+
+        this.reported = true;
+        this.onSummary(
+            this.eventName,
+            { scrollDepth, maxScroll: Math.round(this.maxScroll), activeTime: Math.round(activeTime / 1000) },
+            this.page,
+            pageHidden
+        );
+    }
+
+    /**
+     * Highest scroll threshold reached on the current page, 0 before the first one.
+     */
+    getScrollDepth(): number {
+        return this.thresholds.filter((threshold) => threshold <= this.maxScroll).pop() || 0;
+    }
+
+    /**
+     * Active time on the current page so far, in milliseconds.
+     */
+    getActiveTime(): number {
+        return this.activeTime + (this.activeSince !== undefined ? Date.now() - this.activeSince : 0);
+    }
+
+    private reset(): void {
+        this.pause();
+        this.page = this.getPage();
+        this.maxScroll = 0;
+        this.activeTime = 0;
+        this.reported = false;
+        this.updateScroll();
+        this.handleActivity();
+    }
+
+    private updateScroll(): void {
+        this.maxScroll = Math.max(this.maxScroll, getScrollPercent());
+    }
+
+    private handleActivity(): void {
+        if (document.visibilityState === 'hidden') return;
+
+        if (this.activeSince === undefined) {
+            this.activeSince = Date.now();
+        }
+        this.startIdleTimer();
+    }
+
+    /**
+     * Add the running active period to the total and stop counting.
+     */
+    private pause(): void {
+        if (this.activeSince !== undefined) {
+            this.activeTime += Date.now() - this.activeSince;
+            this.activeSince = undefined;
+        }
+        if (this.idleTimer) {
+            clearTimeout(this.idleTimer);
+            this.idleTimer = undefined;
+        }
+    }
+
+    private startIdleTimer(): void {
+        if (this.idleTimer) {
+            clearTimeout(this.idleTimer);
+        }
+        this.idleTimer = setTimeout(() => {
+            this.idleTimer = undefined;
+            this.pause();
+        }, this.idleTimeout);
+    }
+}
@@ -0,0 +1,159 @@
+import { createUmamiClient } from './UmamiClient';
+import { fingerprintError, getErrorDetails, normalizeSource, startErrorTracking } from './ErrorTracker';
+import { createRecordingTransport } from './testing';
+
+function dispatchError(message: string, filename = 'http://localhost/assets/app.js?v=3', lineno = 10, colno = 5) {
+  window.dispatchEvent(new ErrorEvent('error', { message, filename, lineno, colno, error: new Error(message), cancelable: true }));
+}
+
+function dispatchRejection(reason: unknown) {
+  window.dispatchEvent(Object.assign(new Event('unhandledrejection'), { reason }));
+}
+
+// Keeps the test environment from reporting the dispatched errors as uncaught
+const preventDefault = (event: Event) => event.preventDefault();
+
+describe('ErrorTracker', () => {
+  beforeAll(() => {
+    window.addEventListener('error', preventDefault);
+  });
+
+  afterAll(() => {
+    window.removeEventListener('error', preventDefault);
+  });
+
+  afterEach(() => {
+    sessionStorage.clear();
+  });
+
+  describe('normalizeSource', () => {
+    it('should strip query and hash and shorten same-origin URLs', () => {
+      expect(normalizeSource('http://localhost/assets/app.js?v=3#map')).toBe('/assets/app.js');
+      expect(normalizeSource('https://cdn.example.com/lib.js?v=1')).toBe('https://cdn.example.com/lib.js');
+      expect(normalizeSource('')).toBe('inline');
+    });
+  });
+
+  describe('fingerprintError', () => {
+    it('should ignore numbers in the message', () => {
+      const details = { message: 'User 42 not found', source: '/app.js', line: 1, column: 2 };
+
+      expect(fingerprintError(details)).toMatch(/^[0-9a-f]{8}$/);
+      expect(fingerprintError({ ...details, message: 'User 7 not found' })).toBe(fingerprintError(details));
+      expect(fingerprintError({ ...details, line: 3 })).not.toBe(fingerprintError(details));
+    });
+  });
+
+  describe('getErrorDetails', () => {
+    it('should locate rejections by their stack', () => {
+      const error = new Error('Failed to load');
+      error.stack = 'Error: Failed to load\n    at load (http://localhost/assets/chunk.js?t=1:12:34)';
+
+      expect(getErrorDetails(Object.assign(new Event('unhandledrejection'), { reason: error }) as any)).toEqual({
+        type: 'unhandledrejection',
+        message: 'Failed to load',
+        source: '/assets/chunk.js',
+        line: 12,
+        column: 34,
+        fingerprint: expect.any(String),
+      });
+    });
+
+    it('should describe rejections with non-error reasons', () => {
+      const details = getErrorDetails(Object.assign(new Event('unhandledrejection'), { reason: 'timeout' }) as any);
+
+      expect(details).toEqual(expect.objectContaining({ message: 'timeout', source: 'inline', line: 0, column: 0 }));
+    });
+  });
+
+  describe('startErrorTracking', () => {
+    it('should send uncaught errors and rejections', () => {
+      const onEvent = jest.fn();
+      const stop = startErrorTracking(onEvent);
+
+      dispatchError('x is undefined');
+      dispatchRejection('timeout');
+      stop();
+
+      expect(onEvent).toHaveBeenCalledTimes(2);
+      expect(onEvent).toHaveBeenCalledWith('js-error', {
+        type: 'error',
+        message: 'x is undefined',
+        source: '/assets/app.js',
+        line: 10,
+        column: 5,
+        fingerprint: expect.any(String),
+      });
+      expect(onEvent).toHaveBeenCalledWith('js-error', expect.objectContaining({ type: 'unhandledrejection' }));
+    });
+
+    it('should send each error once per session', () => {
+      const onEvent = jest.fn();
+      let stop = startErrorTracking(onEvent);
+
+      dispatchError('x is undefined');
+      dispatchError('x is undefined');
+      stop();
+      stop = startErrorTracking(onEvent);
+      dispatchError('x is undefined');
+      stop();
+
+      expect(onEvent).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop at the per-session cap', () => {
+      const onEvent = jest.fn();
+      const stop = startErrorTracking(onEvent, { maxEvents: 2 });
+
+      dispatchError('first', undefined, 1);
+      dispatchError('second', undefined, 2);
+      dispatchError('third', undefined, 3);
+      stop();
+
+      expect(onEvent.mock.calls.map(([, data]) => data.message)).toEqual(['first', 'second']);
+    });
+
+    it('should apply the event name, ignore list and rejection option', () => {
+      const onEvent = jest.fn();
+      const stop = startErrorTracking(onEvent, {
+        eventName: 'client-error',
+        ignore: ['ResizeObserver', /^Script error/],
+        unhandledRejections: false,
+      });
+
+      dispatchError('ResizeObserver loop limit exceeded');
+      dispatchError('Script error.');
+      dispatchRejection('timeout');
+      dispatchError('x is undefined');
+      stop();
+
+      expect(onEvent).toHaveBeenCalledTimes(1);
+      expect(onEvent).toHaveBeenCalledWith('client-error', expect.objectContaining({ message: 'x is undefined' }));
+    });
+
+    it('should remove the listeners when stopped', () => {
+      const onEvent = jest.fn();
+      startErrorTracking(onEvent)();
+
+      dispatchError('x is undefined');
+
+      expect(onEvent).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should send errors through the client with the errorTracking option', async () => {
+    const transport = createRecordingTransport();
+    const client = createUmamiClient({ baseUrl: 'https://umami.is', websiteId: 'test-id', errorTracking: true, transport });
+
+    dispatchError('x is undefined');
+    await Promise.resolve();
+    client.reset();
+
+    expect(transport.getTrackedEvents()).toEqual([
+      {
+        type: 'event',
+        payload: expect.objectContaining({ name: 'js-error', data: expect.objectContaining({ message: 'x is undefined' }) }),
+      },
+    ]);
+  });
+});
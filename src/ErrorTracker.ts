@@ -0,0 +1,174 @@
+import { EventData } from './UmamiLogger';
+
+// JavaScript error tracking options
+export interface ErrorTrackingOptions {
+    eventName?: string;
+    unhandledRejections?: boolean;
+    maxEvents?: number;
+    ignore?: (string | RegExp)[];
+    storageKey?: string;
+    target?: Window;
+}
+
+// Called for each error that should be tracked
+export type ErrorEventHandler = (eventName: string, eventData: EventData) => void;
+
+// Details of an error, sent as event data
+export interface ErrorDetails {
+    type: 'error' | 'unhandledrejection';
+    message: string;
+    source: string;
+    line: number;
+    column: number;
+    fingerprint: string;
+}
+
+const ERROR_EVENT_NAME = 'js-error';
+const DEFAULT_MAX_EVENTS = 10;
+const DEFAULT_STORAGE_KEY = 'umami.errors';
+const MAX_MESSAGE_LENGTH = 500;
+
+// First "file:line:column" location in a stack trace
+const STACK_LOCATION = /((?:https?|file|webpack|blob):\/\/[^\s()]+|\/[^\s():]+):(\d+):(\d+)/;
+
+/**
+ * Reduce a script URL to a stable file name: query and hash are removed,
+ * and URLs on the current origin become paths.
+ *
+ * @param source - Script URL from the error event or stack trace
+ */
+export function normalizeSource(source: string | undefined): string {
+    if (!source) return 'inline';
+
+    const file = source.replace(/[?#].*$/, '');
+    if (typeof location !== 'undefined' && file.startsWith(location.origin + '/')) {
+        return file.slice(location.origin.length);
+    }
+    return file;
+}
+
+/**
+ * Build a short fingerprint that identifies an error across occurrences.
+ * Numbers in the message are ignored, so errors that differ only by an ID share a fingerprint.
+ *
+ * @param details - Error message, normalized source and position
+ */
+export function fingerprintError(details: Omit<ErrorDetails, 'fingerprint' | 'type'>): string {
+    const text = [details.message.replace(/\d+/g, '0'), details.source, details.line, details.column].join('|');
+
+    // FNV-1a
+    let hash = 0x811c9dc5;
+    for (let index = 0; index < text.length; index++) {
+        hash ^= text.charCodeAt(index);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Extract the details of an error event or an unhandled rejection.
+ *
+ * @param event - ErrorEvent or PromiseRejectionEvent
+ */
+export function getErrorDetails(event: ErrorEvent | PromiseRejectionEvent): ErrorDetails {
+    const rejection = event.type === 'unhandledrejection';
+    const error = rejection ? (event as PromiseRejectionEvent).reason : (event as ErrorEvent).error;
+
+    let message: string;
+    let source: string | undefined;
+    let line = 0;
+    let column = 0;
+
+    if (rejection) {
+        message = error instanceof Error ? error.message : String(error);
+    } else {
+        const errorEvent = event as ErrorEvent;
+        message = errorEvent.message || (error instanceof Error ? error.message : 'Unknown error');
+        source = errorEvent.filename;
+        line = errorEvent.lineno || 0;
+        column = errorEvent.colno || 0;
+    }
+
+    // Rejections and errors without a location are located by the top stack frame
+    const location = !source && error instanceof Error && error.stack ? STACK_LOCATION.exec(error.stack) : null;
+    if (location) {
+        source = location[1];
+        line = Number(location[2]);
+        column = Number(location[3]);
+    }
+
+    const details = {
+        message: message.slice(0, MAX_MESSAGE_LENGTH),
+        source: normalizeSource(source),
+        line,
+        column,
+    };
+    return { type: rejection ? 'unhandledrejection' : 'error', ...details, fingerprint: fingerprintError(details) };
+}
+
+// Fingerprints sent in this session, kept in sessionStorage so the cap survives page loads
+class ErrorLog {
+    private fingerprints: string[] = [];
+
+    constructor(private storageKey: string) {
+        try {
+            const stored = JSON.parse(sessionStorage.getItem(storageKey) || '[]');
+            this.fingerprints = Array.isArray(stored) ? stored : [];
+        } catch {
+            // Storage unavailable, keep the log in memory
+        }
+    }
+
+    has(fingerprint: string): boolean {
+        return this.fingerprints.includes(fingerprint);
+    }
+
+    get size(): number {
+        return this.fingerprints.length;
+    }
+
+    add(fingerprint: string): void {
+        this.fingerprints.push(fingerprint);
+        try {
+            sessionStorage.setItem(this.storageKey, JSON.stringify(this.fingerprints));
+        } catch {
+            // Storage unavailable, keep the log in memory
+        }
+    }
+}
+
+/**
+ * Listen for uncaught errors and unhandled promise rejections.
+ * Each distinct error is sent once per session, and at most `maxEvents` errors are sent.
+ *
+ * @param onEvent - Called with the event name and error details
+ * @param options - Error tracking options
+ * @returns Function that removes the listeners
+ */
+export function startErrorTracking(onEvent: ErrorEventHandler, options: ErrorTrackingOptions = {}): () => void {
+    const target = options.target || window;
+    const eventName = options.eventName || ERROR_EVENT_NAME;
+    const maxEvents = options.maxEvents ?? DEFAULT_MAX_EVENTS;
+    const log = new ErrorLog(options.storageKey || DEFAULT_STORAGE_KEY);
+
+    const listener = (event: Event) => {
+        const details = getErrorDetails(event as ErrorEvent | PromiseRejectionEvent);
+
+        const ignored = (options.ignore || []).some((pattern) =>
+            typeof pattern === 'string' ? details.message.includes(pattern) : pattern.test(details.message)
+        );
+        if (ignored || log.has(details.fingerprint) || log.size >= maxEvents) return;
+
+        log.add(details.fingerprint);
+        onEvent(eventName, { ...details });
+    };
+
+    target.addEventListener('error', listener);
+    if (options.unhandledRejections !== false) {
+        target.addEventListener('unhandledrejection', listener);
+    }
+    return () => {
+        target.removeEventListener('error', listener);
+        target.removeEventListener('unhandledrejection', listener);
+    };
+}
@@ -0,0 +1,125 @@
+import { createUmamiClient, UmamiClient } from './UmamiClient';
+import { classifyLink, startLinkTracking } from './LinkTracker';
+import { Transport } from './Transport';
+
+function createLink(html: string): HTMLAnchorElement {
+  document.body.innerHTML = html;
+  return document.querySelector('a')!;
+}
+
+describe('LinkTracker', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  describe('classifyLink', () => {
+    it('should detect links to other hosts', () => {
+      expect(classifyLink(createLink('<a href="https://partner.com/offer">Offer</a>'), ['localhost'])).toBe('outbound');
+    });
+
+    it('should treat internal hosts as internal', () => {
+      expect(classifyLink(createLink('<a href="https://www.example.com/">Home</a>'), ['www.example.com'])).toBeUndefined();
+      expect(classifyLink(createLink('<a href="/about">About</a>'), ['localhost'])).toBeUndefined();
+    });
+
+    it('should detect downloads by extension or download attribute', () => {
+      expect(classifyLink(createLink('<a href="/files/report.PDF">Report</a>'), ['localhost'])).toBe('download');
+      expect(classifyLink(createLink('<a href="/export" download>Export</a>'), ['localhost'])).toBe('download');
+    });
+
+    it('should use custom download extensions', () => {
+      const link = createLink('<a href="/data.parquet">Data</a>');
+
+      expect(classifyLink(link, ['localhost'], { downloadExtensions: ['parquet'] })).toBe('download');
+      expect(classifyLink(link, ['localhost'])).toBeUndefined();
+    });
+
+    it('should ignore non-http links and disabled kinds', () => {
+      expect(classifyLink(createLink('<a href="mailto:hi@example.com">Mail</a>'), ['localhost'])).toBeUndefined();
+      expect(classifyLink(createLink('<a href="https://partner.com">P</a>'), ['localhost'], { outbound: false })).toBeUndefined();
+      expect(classifyLink(createLink('<a href="/a.zip">Zip</a>'), ['localhost'], { downloads: false })).toBeUndefined();
+    });
+  });
+
+  it('should report outbound clicks with the URL and link text', () => {
+    const link = createLink('<a href="https://partner.com/offer"><span> Partner   offer </span></a>');
+    const onEvent = jest.fn();
+    const stop = startLinkTracking(onEvent, () => ['localhost']);
+
+    link.querySelector('span')!.dispatchEvent(new MouseEvent('click', { bubbles: true, cancelable: true }));
+
+    expect(onEvent).toHaveBeenCalledWith(
+      'outbound-link-click',
+      { url: 'https://partner.com/offer', text: 'Partner offer' },
+      { beacon: true }
+    );
+    stop();
+  });
+
+  it('should report downloads with a custom event name', () => {
+    const link = createLink('<a href="/files/brochure.pdf">Brochure</a>');
+    const onEvent = jest.fn();
+    const stop = startLinkTracking(onEvent, () => ['localhost'], { downloadEventName: 'download' });
+
+    link.dispatchEvent(new MouseEvent('click', { bubbles: true, cancelable: true }));
+
+    expect(onEvent).toHaveBeenCalledWith(
+      'download',
+      { url: 'http://localhost/files/brochure.pdf', text: 'Brochure' },
+      { beacon: true }
+    );
+    stop();
+  });
+
+  it('should track middle clicks but not right clicks', () => {
+    const link = createLink('<a href="https://partner.com">Partner</a>');
+    const onEvent = jest.fn();
+    const stop = startLinkTracking(onEvent, () => ['localhost']);
+
+    link.dispatchEvent(new MouseEvent('auxclick', { bubbles: true, button: 2 }));
+    expect(onEvent).not.toHaveBeenCalled();
+
+    link.dispatchEvent(new MouseEvent('auxclick', { bubbles: true, button: 1 }));
+    expect(onEvent).toHaveBeenCalledTimes(1);
+    stop();
+  });
+});
+
+describe('UmamiLogger link tracking', () => {
+  let client: UmamiClient;
+  let sendBeacon: jest.Mock;
+
+  beforeEach(() => {
+    sendBeacon = jest.fn().mockReturnValue(true);
+    Object.defineProperty(navigator, 'sendBeacon', { value: sendBeacon, writable: true, configurable: true });
+  });
+
+  afterEach(() => {
+    client.reset();
+    document.body.innerHTML = '';
+    delete (navigator as any).sendBeacon;
+  });
+
+  it('should send outbound clicks with sendBeacon', async () => {
+    const transport: Transport = { send: jest.fn() };
+    client = createUmamiClient({ baseUrl: 'https://umami.is', websiteId: 'test-id', linkTracking: true, transport });
+    const link = createLink('<a href="https://partner.com/offer">Offer</a>');
+
+    link.dispatchEvent(new MouseEvent('click', { bubbles: true, cancelable: true }));
+    await Promise.resolve();
+
+    expect(sendBeacon).toHaveBeenCalledWith('https://umami.is/api/send', expect.any(Blob));
+    expect(transport.send).not.toHaveBeenCalled();
+  });
+
+  it('should treat configured domains as internal', () => {
+    client = createUmamiClient({ baseUrl: 'https://umami.is', websiteId: 'test-id', domains: ['localhost', 'docs.example.com'] });
+    const stop = client.trackLinks();
+    const link = createLink('<a href="https://docs.example.com/guide">Guide</a>');
+
+    link.dispatchEvent(new MouseEvent('click', { bubbles: true, cancelable: true }));
+
+    expect(sendBeacon).not.toHaveBeenCalled();
+    stop();
+  });
+});
@@ -0,0 +1,97 @@
+import { EventData, SendOptions } from './UmamiLogger';
+
+// Outbound link and file download tracking options
+export interface LinkTrackingOptions {
+    outbound?: boolean;
+    downloads?: boolean;
+    downloadExtensions?: string[];
+    outboundEventName?: string;
+    downloadEventName?: string;
+    root?: Document | HTMLElement;
+}
+
+// Called for each tracked link click
+export type LinkEventHandler = (eventName: string, eventData: EventData, options: SendOptions) => void;
+
+export const DEFAULT_DOWNLOAD_EXTENSIONS = [
+    '7z', 'apk', 'avi', 'csv', 'dmg', 'doc', 'docx', 'epub', 'exe', 'gz', 'iso', 'key', 'mov', 'mp3',
+    'mp4', 'msi', 'numbers', 'odp', 'ods', 'odt', 'pages', 'pdf', 'pkg', 'ppt', 'pptx', 'rar', 'rtf',
+    'tar', 'txt', 'wav', 'xls', 'xlsx', 'zip',
+];
+
+const OUTBOUND_EVENT_NAME = 'outbound-link-click';
+const DOWNLOAD_EVENT_NAME = 'file-download';
+
+/**
+ * Decide whether a link points to a file download or another host.
+ *
+ * @param link - The clicked anchor
+ * @param internalHosts - Hostnames that count as the same site
+ * @param options - Which kinds of links to detect and the download extensions
+ */
+export function classifyLink(
+    link: HTMLAnchorElement,
+    internalHosts: string[],
+    options: LinkTrackingOptions = {}
+): 'download' | 'outbound' | undefined {
+    if (!/^https?:$/.test(link.protocol)) return undefined;
+
+    if (options.downloads !== false) {
+        const extensions = options.downloadExtensions || DEFAULT_DOWNLOAD_EXTENSIONS;
+        const match = /\.([a-z0-9]+)$/i.exec(link.pathname);
+        if (link.hasAttribute('download') || (match && extensions.includes(match[1].toLowerCase()))) {
+            return 'download';
+        }
+    }
+
+    if (options.outbound !== false && link.hostname && !internalHosts.includes(link.hostname)) {
+        return 'outbound';
+    }
+
+    return undefined;
+}
+
+/**
+ * Listen for clicks on outbound links and file downloads.
+ * Events are sent with sendBeacon, so they are delivered even though the page navigates away.
+ *
+ * @param onEvent - Called with the event name, data and delivery options
+ * @param getInternalHosts - Returns the hostnames that count as the same site
+ * @param options - Link tracking options
+ * @returns Function that removes the listeners
+ */
+export function startLinkTracking(
+    onEvent: LinkEventHandler,
+    getInternalHosts: () => string[],
+    options: LinkTrackingOptions = {}
+): () => void {
+    const root = options.root || document;
+
+    const listener = (event: Event) => {
+        // Only primary and middle clicks open links
+        if (event.type === 'auxclick' && (event as MouseEvent).button !== 1) return;
+
+        const target = event.target;
+        if (!target || typeof (target as Element).closest !== 'function') return;
+
+        const link = (target as Element).closest('a[href]') as HTMLAnchorElement | null;
+        if (!link) return;
+
+        const kind = classifyLink(link, getInternalHosts(), options);
+        if (!kind) return;
+
+        const eventName = kind === 'download'
+            ? options.downloadEventName || DOWNLOAD_EVENT_NAME
+            : options.outboundEventName || OUTBOUND_EVENT_NAME;
+        const text = (link.textContent || '').replace(/\s+/g, ' ').trim();
+
+        onEvent(eventName, { url: link.href, text }, { beacon: true });
+    };
+
+    root.addEventListener('click', listener, true);
+    root.addEventListener('auxclick', listener, true);
+    return () => {
+        root.removeEventListener('click', listener, true);
+        root.removeEventListener('auxclick', listener, true);
+    };
+}
@@ -0,0 +1,295 @@
+import axios from 'axios';
+import UmamiLogger from './UmamiLogger';
+import { createAxiosTransport } from './Transport';
+import { OfflineQueue, MemoryQueueStorage, LocalStorageQueueStorage, QueuedEvent } from './OfflineQueue';
+
+jest.mock('axios');
+
+const transport = createAxiosTransport(axios);
+
+const mockAxiosPost = axios.post as jest.MockedFunction<typeof axios.post>;
+
+const payload = {
+  hostname: 'localhost',
+  language: 'en-US',
+  referrer: '',
+  screen: '1024x768',
+  title: 'Test Title',
+  url: '/test',
+  website: 'test-id',
+};
+
+function setOnline(value: boolean) {
+  Object.defineProperty(navigator, 'onLine', {
+    value,
+    writable: true,
+    configurable: true,
+  });
+}
+
+describe('OfflineQueue', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should store enqueued events', async () => {
+    const queue = new OfflineQueue({ storage: 'memory' });
+
+    await queue.enqueue({ payload, type: 'event' });
+
+    const events = await queue.getEvents();
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ payload, type: 'event', attempts: 0 });
+  });
+
+  it('should drop the oldest events when maxSize is exceeded', async () => {
+    const queue = new OfflineQueue({ storage: 'memory', maxSize: 2 });
+
+    await queue.enqueue({ payload: { ...payload, name: 'first' }, type: 'event' });
+    await queue.enqueue({ payload: { ...payload, name: 'second' }, type: 'event' });
+    await queue.enqueue({ payload: { ...payload, name: 'third' }, type: 'event' });
+
+    const events = await queue.getEvents();
+    expect(events.map((event) => event.payload.name)).toEqual(['second', 'third']);
+  });
+
+  it('should drop events older than maxAge', async () => {
+    const queue = new OfflineQueue({ storage: 'memory', maxAge: 1000 });
+
+    await queue.enqueue({ payload, type: 'event' });
+    jest.advanceTimersByTime(1001);
+
+    expect(await queue.size()).toBe(0);
+  });
+
+  it('should persist events in localStorage by default', async () => {
+    window.localStorage.clear();
+    const queue = new OfflineQueue({ storageKey: 'test.queue' });
+
+    await queue.enqueue({ payload, type: 'event' });
+
+    const stored = JSON.parse(window.localStorage.getItem('test.queue') || '[]');
+    expect(stored).toHaveLength(1);
+    expect(await new LocalStorageQueueStorage('test.queue').load()).toEqual(stored);
+    await queue.clear();
+    expect(window.localStorage.getItem('test.queue')).toBeNull();
+  });
+
+  it('should accept a custom storage adapter', async () => {
+    const storage = new MemoryQueueStorage();
+    const queue = new OfflineQueue({ storage });
+
+    await queue.enqueue({ payload, type: 'event' });
+
+    expect(storage.load()).toHaveLength(1);
+  });
+
+  it('should send events in order and remove them on success', async () => {
+    const queue = new OfflineQueue({ storage: 'memory' });
+    const sent: string[] = [];
+    await queue.enqueue({ payload: { ...payload, name: 'a' }, type: 'event' });
+    await queue.enqueue({ payload: { ...payload, name: 'b' }, type: 'event' });
+
+    await queue.flush(async (event: QueuedEvent) => {
+      sent.push(event.payload.name as string);
+      return true;
+    });
+
+    expect(sent).toEqual(['a', 'b']);
+    expect(await queue.size()).toBe(0);
+  });
+
+  it('should remove rejected events and send the ones behind them', async () => {
+    const queue = new OfflineQueue({ storage: 'memory' });
+    await queue.enqueue({ payload: { ...payload, name: 'a' }, type: 'event' });
+    await queue.enqueue({ payload: { ...payload, name: 'b' }, type: 'event' });
+    const send = jest.fn(async (event: QueuedEvent) => (event.payload.name === 'a' ? 'rejected' as const : true));
+
+    await queue.flush(send);
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(await queue.size()).toBe(0);
+  });
+
+  it('should retry with exponential backoff after a failure', async () => {
+    const queue = new OfflineQueue({ storage: 'memory', retryDelay: 100, maxRetryDelay: 300 });
+    const send = jest.fn().mockResolvedValue(false);
+    await queue.enqueue({ payload, type: 'event' });
+
+    await queue.flush(send);
+    expect(send).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(100);
+    expect(send).toHaveBeenCalledTimes(2);
+
+    await jest.advanceTimersByTimeAsync(199);
+    expect(send).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(send).toHaveBeenCalledTimes(3);
+
+    // Capped at maxRetryDelay
+    await jest.advanceTimersByTimeAsync(300);
+    expect(send).toHaveBeenCalledTimes(4);
+
+    const [event] = await queue.getEvents();
+    expect(event.attempts).toBe(4);
+    queue.dispose();
+  });
+});
+
+describe('UmamiLogger offline queue', () => {
+  let umami: UmamiLogger;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    setOnline(true);
+    UmamiLogger.resetInstance();
+    umami = UmamiLogger.getInstance();
+  });
+
+  afterEach(() => {
+    UmamiLogger.resetInstance();
+  });
+
+  it('should queue events when sending fails', async () => {
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+    mockAxiosPost.mockRejectedValue(new Error('Network error'));
+    umami.initialize({ baseUrl: 'https://umami.is', websiteId: 'test-id', offlineQueue: { storage: 'memory' }, transport });
+
+    await umami.logEvent('click', { buttonId: 'test-button' });
+
+    const events = await umami.getQueue()!.getEvents();
+    expect(events).toHaveLength(1);
+    expect(events[0].payload).toMatchObject({ name: 'click', data: { buttonId: 'test-button' } });
+    consoleSpy.mockRestore();
+  });
+
+  it('should queue without sending while offline', async () => {
+    setOnline(false);
+    umami.initialize({ baseUrl: 'https://umami.is', websiteId: 'test-id', offlineQueue: { storage: 'memory' }, transport });
+
+    await umami.logEvent('click');
+
+    expect(mockAxiosPost).not.toHaveBeenCalled();
+    expect(await umami.getQueue()!.size()).toBe(1);
+  });
+
+  it('should flush the queue when the online event fires', async () => {
+    setOnline(false);
+    mockAxiosPost.mockResolvedValue({ data: {} });
+    umami.initialize({ baseUrl: 'https://umami.is', websiteId: 'test-id', offlineQueue: { storage: 'memory' }, transport });
+    await umami.logEvent('click');
+
+    setOnline(true);
+    window.dispatchEvent(new Event('online'));
+    await umami.flushQueue();
+
+    expect(mockAxiosPost).toHaveBeenCalledWith(
+      'https://umami.is/api/send',
+      expect.objectContaining({
+        payload: expect.objectContaining({ name: 'click' }),
+      })
+    );
+    expect(await umami.getQueue()!.size()).toBe(0);
+  });
+
+  it('should flush the queue after the next successful send', async () => {
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+    umami.initialize({ baseUrl: 'https://umami.is', websiteId: 'test-id', offlineQueue: { storage: 'memory' }, transport });
+    mockAxiosPost.mockRejectedValueOnce(new Error('Network error'));
+    await umami.logEvent('failed');
+
+    mockAxiosPost.mockResolvedValue({ data: {} });
+    await umami.logEvent('succeeded');
+    await umami.flushQueue();
+
+    expect(mockAxiosPost).toHaveBeenCalledTimes(3);
+    expect(await umami.getQueue()!.size()).toBe(0);
+    consoleSpy.mockRestore();
+  });
+
+  it('should not queue events the server rejected', async () => {
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+    mockAxiosPost.mockRejectedValue({ response: { status: 400, data: 'Bad request' } });
+    umami.initialize({ baseUrl: 'https://umami.is', websiteId: 'test-id', offlineQueue: { storage: 'memory' }, transport });
+
+    const result = await umami.logEvent('click');
+
+    expect(result).toEqual({ status: 'failed', error: expect.anything() });
+    expect(await umami.getQueue()!.size()).toBe(0);
+    consoleSpy.mockRestore();
+  });
+
+  it('should queue events after server errors', async () => {
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+    mockAxiosPost.mockRejectedValue({ response: { status: 503, data: '' } });
+    umami.initialize({ baseUrl: 'https://umami.is', websiteId: 'test-id', offlineQueue: { storage: 'memory' }, transport });
+
+    await umami.logEvent('click');
+
+    expect(await umami.getQueue()!.size()).toBe(1);
+    consoleSpy.mockRestore();
+  });
+
+  it('should report events queued after a failed send as queued, not failed', async () => {
+    const onError = jest.fn();
+    const failed = jest.fn();
+    mockAxiosPost.mockRejectedValue(new Error('Network error'));
+    umami.initialize({ baseUrl: 'https://umami.is', websiteId: 'test-id', offlineQueue: { storage: 'memory' }, transport, onError });
+    umami.on('failed', failed);
+
+    await expect(umami.logEvent('click')).resolves.toEqual({ status: 'skipped', reason: 'queued' });
+
+    umami.initialize({
+      baseUrl: 'https://umami.is',
+      websiteId: 'test-id',
+      batch: true,
+      offlineQueue: { storage: 'memory' },
+      transport,
+      onError,
+    });
+    umami.on('failed', failed);
+    const result = umami.logEvent('click');
+    await umami.flushBatch();
+
+    await expect(result).resolves.toEqual({ status: 'skipped', reason: 'queued' });
+    expect(onError).not.toHaveBeenCalled();
+    expect(failed).not.toHaveBeenCalled();
+  });
+
+  it('should drop queued events rejected during a flush and deliver the rest', async () => {
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+    const onError = jest.fn();
+    setOnline(false);
+    umami.initialize({ baseUrl: 'https://umami.is', websiteId: 'test-id', offlineQueue: { storage: 'memory' }, transport, onError });
+    await umami.logEvent('rejected');
+    await umami.logEvent('accepted');
+
+    setOnline(true);
+    mockAxiosPost
+      .mockRejectedValueOnce({ response: { status: 400, data: 'Bad request' } })
+      .mockResolvedValue({ data: {} });
+    await umami.flushQueue();
+
+    expect(mockAxiosPost).toHaveBeenCalledTimes(2);
+    expect(mockAxiosPost.mock.calls[1][1]).toEqual(expect.objectContaining({ payload: expect.objectContaining({ name: 'accepted' }) }));
+    expect(await umami.getQueue()!.size()).toBe(0);
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ reason: 'http', status: 400 }));
+    consoleSpy.mockRestore();
+  });
+
+  it('should not queue anything when the option is disabled', async () => {
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+    mockAxiosPost.mockRejectedValue(new Error('Network error'));
+    umami.initialize({ baseUrl: 'https://umami.is', websiteId: 'test-id', transport });
+
+    await umami.logEvent('click');
+
+    expect(umami.getQueue()).toBeUndefined();
+    consoleSpy.mockRestore();
+  });
+});
@@ -0,0 +1,306 @@
+import { UmamiPayload } from './UmamiLogger';
+
+// A payload waiting to be (re)sent
+export interface QueuedEvent {
+    id: string;
+    type: string;
+    payload: UmamiPayload;
+    timestamp: number;
+    attempts: number;
+}
+
+// Storage adapter used to persist the queue
+export interface QueueStorage {
+    load(): Promise<QueuedEvent[]> | QueuedEvent[];
+    save(events: QueuedEvent[]): Promise<void> | void;
+}
+
+// Offline queue options
+export interface OfflineQueueOptions {
+    storage?: 'localStorage' | 'indexedDB' | 'memory' | QueueStorage;
+    storageKey?: string;
+    maxSize?: number;
+    maxAge?: number;
+    retryDelay?: number;
+    maxRetryDelay?: number;
+}
+
+// Function used by the queue to deliver an event, resolves to true on success,
+// false to retry later or 'rejected' when the server refused the event for good
+export type QueueSender = (event: QueuedEvent) => Promise<boolean | 'rejected'>;
+
+const DEFAULT_STORAGE_KEY = 'umami.queue';
+const DEFAULT_MAX_SIZE = 100;
+const DEFAULT_MAX_AGE = 24 * 60 * 60 * 1000;
+const DEFAULT_RETRY_DELAY = 1000;
+const DEFAULT_MAX_RETRY_DELAY = 60 * 1000;
+
+/**
+ * In-memory storage, used when nothing persistent is available.
+ */
+export class MemoryQueueStorage implements QueueStorage {
+    private events: QueuedEvent[] = [];
+
+    load(): QueuedEvent[] {
+        return [...this.events];
+    }
+
+    save(events: QueuedEvent[]): void {
+        this.events = [...events];
+    }
+}
+
+/**
+ * Storage backed by window.localStorage.
+ */
+export class LocalStorageQueueStorage implements QueueStorage {
+    constructor(private key: string = DEFAULT_STORAGE_KEY) {}
+
+    load(): QueuedEvent[] {
+        try {
+            const raw = window.localStorage.getItem(this.key);
+            return raw ? JSON.parse(raw) : [];
+        } catch {
+            return [];
+        }
+    }
+
+    save(events: QueuedEvent[]): void {
+        try {
+            if (events.length === 0) {
+                window.localStorage.removeItem(this.key);
+            } else {
+                window.localStorage.setItem(this.key, JSON.stringify(events));
+            }
+        } catch {
+            // Storage full or unavailable, nothing we can do
+        }
+    }
+}
+
+/**
+ * Storage backed by IndexedDB. The whole queue is stored as a single record.
+ */
+export class IndexedDBQueueStorage implements QueueStorage {
+    private static readonly DB_NAME = 'umami-logger';
+    private static readonly STORE_NAME = 'queue';
+
+    private db?: Promise<IDBDatabase>;
+
+    constructor(private key: string = DEFAULT_STORAGE_KEY) {}
+
+    async load(): Promise<QueuedEvent[]> {
+        const db = await this.open();
+        return new Promise((resolve, reject) => {
+            const request = db
+                .transaction(IndexedDBQueueStorage.STORE_NAME, 'readonly')
+                .objectStore(IndexedDBQueueStorage.STORE_NAME)
+                .get(this.key);
+            request.onsuccess = () => resolve(request.result || []);
+            request.onerror = () => reject(request.error);
+        });
+    }
+
+    async save(events: QueuedEvent[]): Promise<void> {
+        const db = await this.open();
+        return new Promise((resolve, reject) => {
+            const transaction = db.transaction(IndexedDBQueueStorage.STORE_NAME, 'readwrite');
+            transaction.objectStore(IndexedDBQueueStorage.STORE_NAME).put(events, this.key);
+            transaction.oncomplete = () => resolve();
+            transaction.onerror = () => reject(transaction.error);
+        });
+    }
+
+    private open(): Promise<IDBDatabase> {
+        if (!this.db) {
+            this.db = new Promise((resolve, reject) => {
+                const request = indexedDB.open(IndexedDBQueueStorage.DB_NAME, 1);
+                request.onupgradeneeded = () => {
+                    request.result.createObjectStore(IndexedDBQueueStorage.STORE_NAME);
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            });
+        }
+        return this.db;
+    }
+}
+
+/**
+ * Pick a storage adapter for the given option, falling back to memory
+ * when the requested browser storage is not available.
+ */
+function createStorage(storage: OfflineQueueOptions['storage'], key: string): QueueStorage {
+    if (storage && typeof storage === 'object') {
+        return storage;
+    }
+
+    if (storage === 'indexedDB' && typeof indexedDB !== 'undefined') {
+        return new IndexedDBQueueStorage(key);
+    }
+
+    if ((storage === undefined || storage === 'localStorage') && isLocalStorageAvailable()) {
+        return new LocalStorageQueueStorage(key);
+    }
+
+    return new MemoryQueueStorage();
+}
+
+function isLocalStorageAvailable(): boolean {
+    try {
+        return typeof window !== 'undefined' && !!window.localStorage;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Queue of failed or offline payloads, retried with exponential backoff.
+ */
+export class OfflineQueue {
+    private storage: QueueStorage;
+    private maxSize: number;
+    private maxAge: number;
+    private retryDelay: number;
+    private maxRetryDelay: number;
+
+    // Serializes storage access so concurrent enqueue/flush calls don't clobber each other
+    private pending: Promise<unknown> = Promise.resolve();
+
+    private flushing?: Promise<void>;
+    private retryTimer?: ReturnType<typeof setTimeout>;
+
+    constructor(options: OfflineQueueOptions = {}) {
+        this.storage = createStorage(options.storage, options.storageKey || DEFAULT_STORAGE_KEY);
+        this.maxSize = options.maxSize ?? DEFAULT_MAX_SIZE;
+        this.maxAge = options.maxAge ?? DEFAULT_MAX_AGE;
+        this.retryDelay = options.retryDelay ?? DEFAULT_RETRY_DELAY;
+        this.maxRetryDelay = options.maxRetryDelay ?? DEFAULT_MAX_RETRY_DELAY;
+    }
+
+    /**
+     * Add a payload to the queue. The oldest events are dropped once maxSize is exceeded.
+     *
+     * @param data - Data to queue (payload and type)
+     */
+    async enqueue(data: { payload: UmamiPayload; type: string }): Promise<void> {
+        await this.update((events) => {
+            events.push({
+                id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`,
+                type: data.type,
+                payload: data.payload,
+                timestamp: Date.now(),
+                attempts: 0,
+            });
+            return events.slice(-this.maxSize);
+        });
+    }
+
+    /**
+     * Get all queued events that have not expired.
+     */
+    getEvents(): Promise<QueuedEvent[]> {
+        return this.update((events) => events);
+    }
+
+    /**
+     * Get the number of queued events.
+     */
+    async size(): Promise<number> {
+        return (await this.getEvents()).length;
+    }
+
+    /**
+     * Remove all queued events.
+     */
+    async clear(): Promise<void> {
+        await this.update(() => []);
+    }
+
+    /**
+     * Send queued events in order. Rejected events are removed, the first other
+     * failure stops the flush and schedules a retry with exponential backoff. Calls made while a flush is running
+     * share its promise.
+     *
+     * @param send - Function that delivers a single event
+     */
+    flush(send: QueueSender): Promise<void> {
+        if (!this.flushing) {
+            this.cancelRetry();
+            const done = () => {
+                this.flushing = undefined;
+            };
+            this.flushing = this.deliver(send).then(done, done);
+        }
+        return this.flushing;
+    }
+
+    /**
+     * Cancel any scheduled retry.
+     */
+    dispose(): void {
+        this.cancelRetry();
+    }
+
+    private async deliver(send: QueueSender): Promise<void> {
+        for (;;) {
+            const [next] = await this.getEvents();
+            if (!next) break;
+
+            let sent: boolean | 'rejected' = false;
+            try {
+                sent = await send(next);
+            } catch {
+                sent = false;
+            }
+
+            // Retrying can't help once the server refused the event, so it mustn't block the rest
+            if (sent) {
+                await this.update((events) => events.filter((event) => event.id !== next.id));
+                continue;
+            }
+
+            const attempts = next.attempts + 1;
+            await this.update((events) =>
+                events.map((event) => (event.id === next.id ? { ...event, attempts } : event))
+            );
+            this.scheduleRetry(send, attempts);
+            break;
+        }
+    }
+
+    /**
+     * Apply a change to the stored events, dropping expired entries on the way.
+     */
+    private update(change: (events: QueuedEvent[]) => QueuedEvent[]): Promise<QueuedEvent[]> {
+        const run = async () => {
+            const now = Date.now();
+            const stored = (await this.storage.load()) || [];
+            const fresh = stored.filter((event) => now - event.timestamp <= this.maxAge);
+            const events = change(fresh);
+            if (events !== fresh || fresh.length !== stored.length) {
+                await this.storage.save(events);
+            }
+            return events;
+        };
+
+        const result = this.pending.then(run, run);
+        this.pending = result.catch(() => undefined);
+        return result;
+    }
+
+    private scheduleRetry(send: QueueSender, attempts: number): void {
+        const delay = Math.min(this.retryDelay * Math.pow(2, attempts - 1), this.maxRetryDelay);
+        this.retryTimer = setTimeout(() => {
+            this.retryTimer = undefined;
+            this.flush(send);
+        }, delay);
+    }
+
+    private cancelRetry(): void {
+        if (this.retryTimer) {
+            clearTimeout(this.retryTimer);
+            this.retryTimer = undefined;
+        }
+    }
+}
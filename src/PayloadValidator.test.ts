@@ -0,0 +1,218 @@
+import { normalizePayload, PayloadValidationError, PayloadWarning } from './PayloadValidator';
+import { createUmamiClient } from './UmamiClient';
+import { UmamiPayload } from './UmamiLogger';
+import { createRecordingTransport } from './testing';
+
+const basePayload: UmamiPayload = {
+  hostname: 'example.com',
+  language: 'en-US',
+  referrer: '',
+  screen: '1920x1080',
+  title: 'Home',
+  url: '/',
+  website: 'test-id',
+};
+
+describe('normalizePayload', () => {
+  it('should leave valid payloads unchanged', () => {
+    const onWarning = jest.fn();
+    const payload = { ...basePayload, name: 'signup', data: { plan: 'pro', seats: 3, trial: false } };
+
+    expect(normalizePayload(payload, { onWarning })).toEqual(payload);
+    expect(onWarning).not.toHaveBeenCalled();
+  });
+
+  it('should truncate over-long fields', () => {
+    const warnings: PayloadWarning[] = [];
+    const result = normalizePayload(
+      { ...basePayload, name: 'x'.repeat(60), url: `/${'a'.repeat(600)}`, data: { note: 'n'.repeat(600) } },
+      { onWarning: (warning) => warnings.push(warning) }
+    );
+
+    expect(result.name).toHaveLength(50);
+    expect(result.url).toHaveLength(500);
+    expect(result.data.note).toHaveLength(500);
+    expect(warnings.map((warning) => warning.field)).toEqual(['name', 'url', 'data.note']);
+  });
+
+  it('should reject over-long fields when configured', () => {
+    const onWarning = jest.fn();
+    const result = normalizePayload({ ...basePayload, name: 'x'.repeat(60) }, { overLength: 'reject', onWarning });
+
+    expect(result).toBeUndefined();
+    expect(onWarning).toHaveBeenCalledWith({ field: 'name', message: 'exceeds 50 characters, event rejected' });
+  });
+
+  it('should flatten nested objects and serialize arrays', () => {
+    const result = normalizePayload(
+      { ...basePayload, data: { user: { plan: 'pro', address: { country: 'DE' } }, tags: ['a', 'b'] } },
+      { onWarning: () => {} }
+    );
+
+    expect(result.data).toEqual({ 'user.plan': 'pro', 'user.address.country': 'DE', tags: '["a","b"]' });
+  });
+
+  it('should serialize nested objects when configured', () => {
+    const result = normalizePayload(
+      { ...basePayload, data: { user: { plan: 'pro' } } },
+      { nested: 'serialize', onWarning: () => {} }
+    );
+
+    expect(result.data).toEqual({ user: '{"plan":"pro"}' });
+  });
+
+  it('should drop circular references', () => {
+    const onWarning = jest.fn();
+    const user: any = { plan: 'pro' };
+    user.self = user;
+    const shared = { country: 'DE' };
+
+    const result = normalizePayload(
+      { ...basePayload, data: { user, billing: shared, shipping: shared } },
+      { onWarning }
+    );
+
+    expect(result.data).toEqual({ 'user.plan': 'pro', 'billing.country': 'DE', 'shipping.country': 'DE' });
+    expect(onWarning).toHaveBeenCalledWith({ field: 'data.user.self', message: 'dropped circular reference' });
+  });
+
+  it('should drop values that cannot be serialized', () => {
+    const onWarning = jest.fn();
+    const user: any = { plan: 'pro' };
+    user.self = user;
+
+    const result = normalizePayload(
+      { ...basePayload, data: { user, list: [user], count: 1 } },
+      { nested: 'serialize', onWarning }
+    );
+
+    expect(result.data).toEqual({ count: 1 });
+    expect(onWarning).toHaveBeenCalledWith({ field: 'data.user', message: 'dropped object that cannot be serialized' });
+    expect(onWarning).toHaveBeenCalledWith({ field: 'data.list', message: 'dropped array that cannot be serialized' });
+  });
+
+  it('should convert dates and drop values that cannot be sent', () => {
+    const onWarning = jest.fn();
+    const result = normalizePayload(
+      {
+        ...basePayload,
+        data: {
+          at: new Date('2024-01-02T03:04:05.000Z'),
+          missing: undefined,
+          callback: () => {},
+          ratio: NaN,
+          empty: null,
+        },
+      },
+      { onWarning }
+    );
+
+    expect(result.data).toEqual({ at: '2024-01-02T03:04:05.000Z', empty: null });
+    expect(onWarning).toHaveBeenCalledTimes(4);
+  });
+
+  it('should not modify the original payload', () => {
+    const payload = { ...basePayload, data: { at: new Date(0) } };
+    normalizePayload(payload, { onWarning: () => {} });
+
+    expect(payload.data.at).toBeInstanceOf(Date);
+  });
+
+  it('should throw in strict mode', () => {
+    expect(() => normalizePayload({ ...basePayload, title: 't'.repeat(501) }, { strict: true })).toThrow(
+      PayloadValidationError
+    );
+  });
+
+  it('should warn on the console by default', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    normalizePayload({ ...basePayload, data: { missing: undefined } });
+
+    expect(warn).toHaveBeenCalledWith('Umami: data.missing dropped undefined value');
+    warn.mockRestore();
+  });
+});
+
+describe('Payload validation', () => {
+  it('should send normalized payloads', async () => {
+    const transport = createRecordingTransport();
+    const client = createUmamiClient({
+      baseUrl: 'https://umami.is',
+      websiteId: 'test-id',
+      transport,
+      validation: { onWarning: () => {} },
+    });
+
+    await client.trackEvent('signup', { user: { plan: 'pro' } });
+
+    expect(transport.getRequests()).toContainEqual(
+      expect.objectContaining({
+        body: expect.objectContaining({ payload: expect.objectContaining({ data: { 'user.plan': 'pro' } }) }),
+      })
+    );
+  });
+
+  it('should not send rejected payloads', async () => {
+    const transport = createRecordingTransport();
+    const client = createUmamiClient({
+      baseUrl: 'https://umami.is',
+      websiteId: 'test-id',
+      transport,
+      validation: { overLength: 'reject', onWarning: () => {} },
+    });
+
+    await client.trackEvent('x'.repeat(51));
+
+    expect(transport.getRequests()).toHaveLength(0);
+  });
+
+  it('should reject the tracking call in strict mode', async () => {
+    const transport = createRecordingTransport();
+    const client = createUmamiClient({
+      baseUrl: 'https://umami.is',
+      websiteId: 'test-id',
+      transport,
+      validation: { strict: true },
+    });
+
+    await expect(client.trackEvent('signup', { at: new Date() })).rejects.toThrow(PayloadValidationError);
+    expect(transport.getRequests()).toHaveLength(0);
+  });
+
+  it('should log strict validation failures of automatic tracking', async () => {
+    const transport = createRecordingTransport();
+    const logger = { warn: jest.fn(), error: jest.fn() };
+    const client = createUmamiClient({
+      baseUrl: 'https://umami.is',
+      websiteId: 'test-id',
+      transport,
+      logger,
+      clickTracking: true,
+      validation: { strict: true, limits: { name: 3 } },
+    });
+    const button = document.createElement('button');
+    button.setAttribute('data-umami-event', 'signup');
+    document.body.appendChild(button);
+
+    button.click();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(logger.error).toHaveBeenCalledWith('Error tracking event:', expect.any(PayloadValidationError));
+    expect(transport.getRequests()).toHaveLength(0);
+    button.remove();
+    client.reset();
+  });
+
+  it('should send payloads untouched without validation', async () => {
+    const transport = createRecordingTransport();
+    const client = createUmamiClient({ baseUrl: 'https://umami.is', websiteId: 'test-id', transport });
+
+    await client.trackEvent('signup', { user: { plan: 'pro' } });
+
+    expect(transport.getRequests()).toContainEqual(
+      expect.objectContaining({
+        body: expect.objectContaining({ payload: expect.objectContaining({ data: { user: { plan: 'pro' } } }) }),
+      })
+    );
+  });
+});
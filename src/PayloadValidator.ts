@@ -0,0 +1,175 @@
+import { UmamiPayload, EventData } from './UmamiLogger';
+
+// Maximum lengths accepted by Umami
+export interface PayloadLimits {
+    name: number;
+    url: number;
+    referrer: number;
+    title: number;
+    hostname: number;
+    language: number;
+    screen: number;
+    tag: number;
+    id: number;
+    dataKey: number;
+    dataValue: number;
+}
+
+// A change made to a payload, or the reason it was rejected
+export interface PayloadWarning {
+    field: string;
+    message: string;
+}
+
+// Payload validation options
+export interface ValidationOptions {
+    strict?: boolean;
+    overLength?: 'truncate' | 'reject';
+    nested?: 'flatten' | 'serialize';
+    limits?: Partial<PayloadLimits>;
+    onWarning?: (warning: PayloadWarning) => void;
+}
+
+export const UMAMI_LIMITS: PayloadLimits = {
+    name: 50,
+    url: 500,
+    referrer: 500,
+    title: 500,
+    hostname: 100,
+    language: 35,
+    screen: 11,
+    tag: 50,
+    id: 50,
+    dataKey: 500,
+    dataValue: 500,
+};
+
+const PAYLOAD_FIELDS: (keyof PayloadLimits & keyof UmamiPayload)[] = [
+    'name', 'url', 'referrer', 'title', 'hostname', 'language', 'screen', 'tag', 'id',
+];
+
+export class PayloadValidationError extends Error {
+    constructor(public warning: PayloadWarning) {
+        super(`Invalid payload field "${warning.field}": ${warning.message}`);
+        this.name = 'PayloadValidationError';
+    }
+}
+
+/**
+ * Bring a payload within Umami's limits: truncate or reject over-long fields,
+ * flatten or serialize nested data, turn dates into ISO strings and drop values
+ * that can't be sent. Each change is reported to `onWarning`; in strict mode
+ * the first change throws a PayloadValidationError instead.
+ *
+ * @param payload - Payload to normalize, left unchanged
+ * @param options - Validation options
+ * @returns The normalized payload, or undefined when it was rejected
+ */
+export function normalizePayload(payload: UmamiPayload, options: ValidationOptions = {}): UmamiPayload | undefined {
+    const limits = { ...UMAMI_LIMITS, ...options.limits };
+    const warn = (field: string, message: string) => {
+        const warning = { field, message };
+        if (options.strict) {
+            throw new PayloadValidationError(warning);
+        }
+        if (options.onWarning) {
+            options.onWarning(warning);
+        } else {
+            console.warn(`Umami: ${field} ${message}`);
+        }
+    };
+
+    let rejected = false;
+    const limit = (field: string, value: string, max: number): string => {
+        if (value.length <= max) return value;
+        if (options.overLength === 'reject') {
+            warn(field, `exceeds ${max} characters, event rejected`);
+            rejected = true;
+            return value;
+        }
+        warn(field, `truncated to ${max} characters`);
+        return value.slice(0, max);
+    };
+
+    const result: UmamiPayload = { ...payload };
+
+    PAYLOAD_FIELDS.forEach((field) => {
+        const value = result[field];
+        if (typeof value === 'string') {
+            result[field] = limit(field, value, limits[field]);
+        }
+    });
+
+    if (result.data) {
+        const data: EventData = {};
+
+        // Objects on the path to the current value, a value among them would recurse forever
+        const ancestors = new Set<object>();
+
+        // JSON.stringify throws on circular structures and bigints
+        const serialize = (field: string, value: object, description: string): string | undefined => {
+            let json: string;
+            try {
+                json = JSON.stringify(value);
+            } catch {
+                warn(field, `dropped ${description} that cannot be serialized`);
+                return undefined;
+            }
+            warn(field, `serialized ${description} to JSON`);
+            return json;
+        };
+
+        const add = (key: string, value: unknown) => {
+            const field = `data.${key}`;
+
+            if (value !== null && typeof value === 'object' && ancestors.has(value)) {
+                warn(field, 'dropped circular reference');
+                return;
+            }
+
+            if (value === undefined || typeof value === 'function' || typeof value === 'symbol') {
+                warn(field, `dropped ${typeof value} value`);
+                return;
+            }
+
+            if (value instanceof Date) {
+                if (isNaN(value.getTime())) {
+                    warn(field, 'dropped invalid date');
+                    return;
+                }
+                warn(field, 'converted date to ISO string');
+                value = value.toISOString();
+            } else if (typeof value === 'number' && !isFinite(value)) {
+                warn(field, `dropped non-finite number ${value}`);
+                return;
+            } else if (typeof value === 'bigint') {
+                warn(field, 'converted bigint to string');
+                value = value.toString();
+            } else if (Array.isArray(value)) {
+                value = serialize(field, value, 'array');
+                if (value === undefined) return;
+            } else if (value !== null && typeof value === 'object') {
+                if (options.nested === 'serialize') {
+                    value = serialize(field, value, 'object');
+                    if (value === undefined) return;
+                } else {
+                    warn(field, 'flattened nested object');
+                    const object = value as EventData;
+                    ancestors.add(object);
+                    Object.keys(object).forEach((child) => add(`${key}.${child}`, object[child]));
+                    ancestors.delete(object);
+                    return;
+                }
+            }
+
+            const name = limit(`${field} key`, key, limits.dataKey);
+            data[name] = typeof value === 'string' ? limit(field, value, limits.dataValue) : value;
+        };
+
+        ancestors.add(result.data);
+        Object.keys(result.data).forEach((key) => add(key, result.data[key]));
+        result.data = data;
+    }
+
+    return rejected ? undefined : result;
+}
@@ -0,0 +1,228 @@
+import { PluginPipeline, Plugin } from './Plugin';
+import { createUmamiClient } from './UmamiClient';
+import { UmamiPayload } from './UmamiLogger';
+import { createRecordingTransport } from './testing';
+
+const payload: UmamiPayload = {
+  hostname: 'example.com',
+  language: 'en-US',
+  referrer: '',
+  screen: '1920x1080',
+  title: 'Home',
+  url: '/',
+  website: 'test-id',
+  name: 'signup',
+};
+
+const context = { type: 'event' };
+
+describe('PluginPipeline', () => {
+  it('should run beforeSend hooks in order', async () => {
+    const pipeline = new PluginPipeline(
+      [
+        { beforeSend: (p) => ({ ...p, data: { step: 'one' } }) },
+        { beforeSend: async (p) => ({ ...p, data: { ...p.data, async: true } }) },
+        { beforeSend: (p) => ({ ...p, data: { ...p.data, step: 'three' } }) },
+      ],
+      { baseUrl: 'https://umami.is', websiteId: 'test-id' }
+    );
+
+    expect(await pipeline.beforeSend(payload, context)).toEqual({ ...payload, data: { step: 'three', async: true } });
+  });
+
+  it('should return synchronously when no hook is async', () => {
+    const pipeline = new PluginPipeline([{ beforeSend: (p) => ({ ...p, tag: 'sync' }) }], {
+      baseUrl: 'https://umami.is',
+      websiteId: 'test-id',
+    });
+
+    expect(pipeline.beforeSend(payload, context)).toEqual({ ...payload, tag: 'sync' });
+  });
+
+  it('should stop and notify onBlocked when a hook cancels', async () => {
+    const later = jest.fn();
+    const onBlocked = jest.fn();
+    const pipeline = new PluginPipeline(
+      [{ beforeSend: async () => null, onBlocked }, { beforeSend: later }],
+      { baseUrl: 'https://umami.is', websiteId: 'test-id' }
+    );
+
+    expect(await pipeline.beforeSend(payload, context)).toBeUndefined();
+    expect(later).not.toHaveBeenCalled();
+    expect(onBlocked).toHaveBeenCalledWith(payload, 'beforeSend', context);
+  });
+
+  it('should wait for async setup before running beforeSend', async () => {
+    const order: string[] = [];
+    const pipeline = new PluginPipeline(
+      [
+        {
+          setup: () => new Promise<void>((resolve) => setTimeout(() => {
+            order.push('setup');
+            resolve();
+          }, 10)),
+          beforeSend: (p) => {
+            order.push('beforeSend');
+            return p;
+          },
+        },
+      ],
+      { baseUrl: 'https://umami.is', websiteId: 'test-id' }
+    );
+
+    await pipeline.beforeSend(payload, context);
+
+    expect(order).toEqual(['setup', 'beforeSend']);
+  });
+
+  it('should log errors of notification hooks and keep going', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const afterSend = jest.fn();
+    const pipeline = new PluginPipeline(
+      [
+        { name: 'broken', afterSend: () => Promise.reject(new Error('boom')) },
+        { afterSend },
+      ],
+      { baseUrl: 'https://umami.is', websiteId: 'test-id' }
+    );
+
+    pipeline.afterSend(payload, {}, context);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(afterSend).toHaveBeenCalled();
+    expect(error).toHaveBeenCalledWith('Error in afterSend of plugin broken:', expect.any(Error));
+    error.mockRestore();
+  });
+
+  it('should log and cancel when a beforeSend hook throws or rejects', async () => {
+    const logger = { warn: jest.fn(), error: jest.fn() };
+    const onBlocked = jest.fn();
+    const next = jest.fn((p: UmamiPayload) => p);
+    const create = (beforeSend: Plugin['beforeSend']) =>
+      new PluginPipeline([{ name: 'broken', beforeSend, onBlocked }, { beforeSend: next }], {
+        baseUrl: 'https://umami.is',
+        websiteId: 'test-id',
+        logger,
+      });
+
+    const throwing = create(() => {
+      throw new Error('boom');
+    });
+    const rejecting = create(() => Promise.reject(new Error('boom')));
+
+    expect(throwing.beforeSend(payload, context)).toBeUndefined();
+    expect(await rejecting.beforeSend(payload, context)).toBeUndefined();
+    expect(next).not.toHaveBeenCalled();
+    expect(onBlocked).toHaveBeenCalledTimes(2);
+    expect(onBlocked).toHaveBeenCalledWith(payload, 'beforeSend', context);
+    expect(logger.error).toHaveBeenCalledWith('Error in beforeSend of plugin broken:', expect.any(Error));
+  });
+});
+
+describe('Plugins', () => {
+  it('should modify payloads and see the response', async () => {
+    const transport = createRecordingTransport({ sessionId: 'session-1' });
+    const afterSend = jest.fn();
+    const scrubEmail: Plugin = {
+      name: 'scrub-email',
+      beforeSend: (p) => ({ ...p, url: p.url.replace(/email=[^&]+/, 'email=') }),
+      afterSend,
+    };
+    const client = createUmamiClient({
+      baseUrl: 'https://umami.is',
+      websiteId: 'test-id',
+      transport,
+      plugins: [scrubEmail],
+    });
+
+    await client.trackPageView('/signup?email=me@example.com');
+
+    const sent = transport.getTrackedEvents()[0].payload;
+    expect(sent.url).toBe('/signup?email=');
+    expect(afterSend).toHaveBeenCalledWith(sent, { sessionId: 'session-1' }, { type: 'event', options: undefined });
+  });
+
+  it('should run the beforeSend option before the plugins', async () => {
+    const transport = createRecordingTransport();
+    const plugin = { beforeSend: jest.fn((p: UmamiPayload) => p) };
+    const client = createUmamiClient({
+      baseUrl: 'https://umami.is',
+      websiteId: 'test-id',
+      transport,
+      beforeSend: (p) => ({ ...p, tag: 'from-option' }),
+      plugins: [plugin],
+    });
+
+    await client.trackEvent('signup');
+
+    expect(plugin.beforeSend).toHaveBeenCalledWith(expect.objectContaining({ tag: 'from-option' }), expect.any(Object));
+  });
+
+  it('should cancel events from async plugins', async () => {
+    const transport = createRecordingTransport();
+    const client = createUmamiClient({
+      baseUrl: 'https://umami.is',
+      websiteId: 'test-id',
+      transport,
+      plugins: [{ beforeSend: async (p) => (p.name === 'internal' ? false : p) }],
+    });
+
+    await client.trackEvent('internal');
+    await client.trackEvent('signup');
+
+    expect(transport.getRequests()).toHaveLength(1);
+  });
+
+  it('should not send events when the beforeSend option throws', async () => {
+    const transport = createRecordingTransport();
+    const logger = { warn: jest.fn(), error: jest.fn() };
+    const filtered = jest.fn();
+    const client = createUmamiClient({
+      baseUrl: 'https://umami.is',
+      websiteId: 'test-id',
+      transport,
+      logger,
+      beforeSend: () => {
+        throw new Error('boom');
+      },
+    });
+    client.on('filtered', filtered);
+
+    const result = await client.trackEvent('signup', { email: 'a@b.c' });
+
+    expect(result).toEqual({ status: 'skipped', reason: 'beforeSend' });
+    expect(filtered).toHaveBeenCalledWith(expect.objectContaining({ type: 'filtered', reason: 'beforeSend' }));
+    expect(transport.getRequests()).toHaveLength(0);
+  });
+
+  it('should notify onError when sending fails', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const onError = jest.fn();
+    const client = createUmamiClient({
+      baseUrl: 'https://umami.is',
+      websiteId: 'test-id',
+      transport: { send: jest.fn().mockRejectedValue(new Error('Network error')) },
+      plugins: [{ onError }],
+    });
+
+    await client.trackEvent('signup');
+
+    expect(onError).toHaveBeenCalledWith(expect.any(Error), expect.objectContaining({ name: 'signup' }), expect.any(Object));
+    error.mockRestore();
+  });
+
+  it('should notify onBlocked for sampled out events', async () => {
+    const onBlocked = jest.fn();
+    const client = createUmamiClient({
+      baseUrl: 'https://umami.is',
+      websiteId: 'test-id',
+      transport: createRecordingTransport(),
+      sampleRate: 0,
+      plugins: [{ onBlocked }],
+    });
+
+    await client.trackEvent('signup');
+
+    expect(onBlocked).toHaveBeenCalledWith(expect.objectContaining({ name: 'signup' }), 'sampled', expect.any(Object));
+  });
+});
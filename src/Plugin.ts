@@ -0,0 +1,184 @@
+import { UmamiConfig, UmamiPayload, UmamiResponse, SendOptions } from './UmamiLogger';
+import { BlockedReason, FilteredReason } from './Emitter';
+
+// Why an event was not sent
+export type BlockReason = BlockedReason | FilteredReason;
+
+// Details about the event passed to plugin hooks
+export interface PluginContext {
+    type: string;
+    options?: SendOptions;
+}
+
+// Result of a beforeSend hook, a falsy value cancels the event
+export type BeforeSendResult = UmamiPayload | null | undefined | false;
+
+// Hooks into sending events, every hook may return a promise
+export interface Plugin {
+    name?: string;
+    setup?(config: UmamiConfig): void | Promise<void>;
+    beforeSend?(payload: UmamiPayload, context: PluginContext): BeforeSendResult | Promise<BeforeSendResult>;
+    afterSend?(payload: UmamiPayload, response: UmamiResponse | void, context: PluginContext): void | Promise<void>;
+    onError?(error: unknown, payload: UmamiPayload, context: PluginContext): void | Promise<void>;
+    onBlocked?(payload: UmamiPayload, reason: BlockReason, context: PluginContext): void | Promise<void>;
+}
+
+/**
+ * Wrap the beforeSend config callback as a plugin.
+ *
+ * @param beforeSend - Callback that modifies the payload or returns a falsy value to cancel
+ */
+export function createBeforeSendPlugin(beforeSend: (payload: UmamiPayload) => BeforeSendResult): Plugin {
+    return {
+        name: 'beforeSend',
+        beforeSend: (payload) => beforeSend(payload),
+    };
+}
+
+function isPromiseLike<T>(value: unknown): value is PromiseLike<T> {
+    return !!value && typeof (value as PromiseLike<T>).then === 'function';
+}
+
+/**
+ * Runs the hooks of a list of plugins in order.
+ * Hooks run synchronously until one returns a promise, so plugins that don't need
+ * to wait don't delay sending. Errors in hooks are logged so a broken plugin can't
+ * stop tracking. A failing beforeSend hook cancels the event, like a falsy result.
+ */
+export class PluginPipeline {
+    // Settles when async setup hooks have finished
+    private pending?: Promise<void>;
+
+    /**
+     * @param plugins - Plugins in the order their hooks run
+     * @param config - Configuration passed to setup
+     */
+    constructor(private plugins: Plugin[], private config: UmamiConfig) {
+        const pending = this.run((plugin) => plugin.setup?.(this.config), 'setup');
+        if (pending) {
+            this.pending = pending.then(() => {
+                this.pending = undefined;
+            });
+        }
+    }
+
+    /**
+     * Pass the payload through every beforeSend hook, after all setup hooks have finished.
+     *
+     * @param payload - Payload to send
+     * @param context - Event details
+     * @returns The final payload, or undefined when a plugin cancelled the event
+     */
+    beforeSend(
+        payload: UmamiPayload,
+        context: PluginContext
+    ): UmamiPayload | undefined | Promise<UmamiPayload | undefined> {
+        if (this.pending) {
+            return this.pending.then(() => this.applyBeforeSend(payload, context, 0));
+        }
+        return this.applyBeforeSend(payload, context, 0);
+    }
+
+    /**
+     * Notify plugins that an event was sent.
+     */
+    afterSend(payload: UmamiPayload, response: UmamiResponse | void, context: PluginContext): void {
+        this.run((plugin) => plugin.afterSend?.(payload, response, context), 'afterSend');
+    }
+
+    /**
+     * Notify plugins that sending an event failed.
+     */
+    onError(error: unknown, payload: UmamiPayload, context: PluginContext): void {
+        this.run((plugin) => plugin.onError?.(error, payload, context), 'onError');
+    }
+
+    /**
+     * Notify plugins that an event was not sent.
+     */
+    onBlocked(payload: UmamiPayload, reason: BlockReason, context: PluginContext): void {
+        this.run((plugin) => plugin.onBlocked?.(payload, reason, context), 'onBlocked');
+    }
+
+    private applyBeforeSend(
+        payload: UmamiPayload,
+        context: PluginContext,
+        start: number
+    ): UmamiPayload | undefined | Promise<UmamiPayload | undefined> {
+        for (let index = start; index < this.plugins.length; index++) {
+            const plugin = this.plugins[index];
+            if (!plugin.beforeSend) continue;
+
+            let result: BeforeSendResult | Promise<BeforeSendResult>;
+            try {
+                result = plugin.beforeSend(payload, context);
+            } catch (error) {
+                // A filter that failed may not have removed what it should, so the event is cancelled
+                this.logError(plugin, 'beforeSend', error);
+                result = undefined;
+            }
+            if (isPromiseLike<BeforeSendResult>(result)) {
+                const current = payload;
+                return Promise.resolve(result).then(
+                    (resolved) => this.continueBeforeSend(current, resolved, context, index + 1),
+                    (error) => {
+                        this.logError(plugin, 'beforeSend', error);
+                        return this.continueBeforeSend(current, undefined, context, index + 1);
+                    }
+                );
+            }
+            if (!result) {
+                this.onBlocked(payload, 'beforeSend', context);
+                return undefined;
+            }
+            payload = result;
+        }
+        return payload;
+    }
+
+    private continueBeforeSend(
+        payload: UmamiPayload,
+        result: BeforeSendResult,
+        context: PluginContext,
+        next: number
+    ): UmamiPayload | undefined | Promise<UmamiPayload | undefined> {
+        if (!result) {
+            this.onBlocked(payload, 'beforeSend', context);
+            return undefined;
+        }
+        return this.applyBeforeSend(result, context, next);
+    }
+
+    /**
+     * Call a hook on each plugin in order, waiting for returned promises. Errors are logged, never thrown.
+     *
+     * @returns A promise when a hook was async, otherwise undefined
+     */
+    private run(hook: (plugin: Plugin) => void | Promise<void>, label: string, start = 0): Promise<void> | undefined {
+        for (let index = start; index < this.plugins.length; index++) {
+            const plugin = this.plugins[index];
+            try {
+                const result = hook(plugin);
+                if (isPromiseLike<void>(result)) {
+                    return Promise.resolve(result).then(
+                        () => this.run(hook, label, index + 1),
+                        (error) => {
+                            this.logError(plugin, label, error);
+                            return this.run(hook, label, index + 1);
+                        }
+                    );
+                }
+            } catch (error) {
+                this.logError(plugin, label, error);
+            }
+        }
+        return undefined;
+    }
+
+    private logError(plugin: Plugin, label: string, error: unknown): void {
+        const logger = this.config.logger === undefined ? console : this.config.logger;
+        if (logger) {
+            logger.error(`Error in ${label} of plugin ${plugin.name || 'unnamed'}:`, error);
+        }
+    }
+}
@@ -0,0 +1,210 @@
+import { createUmamiClient } from './UmamiClient';
+import { getRequestContext } from './RequestContext';
+import { Transport } from './Transport';
+
+const nodeRequest = {
+  url: '/products/42?ref=mail#reviews',
+  headers: {
+    host: 'shop.example.com',
+    referer: 'https://google.com/',
+    'accept-language': 'de-DE,de;q=0.9,en;q=0.8',
+    'user-agent': 'Mozilla/5.0 (Test)',
+    'x-forwarded-for': '203.0.113.7, 10.0.0.1',
+  },
+  socket: { remoteAddress: '10.0.0.1' },
+};
+
+describe('getRequestContext', () => {
+  it('should read a Node.js request', () => {
+    expect(getRequestContext(nodeRequest)).toEqual({
+      url: '/products/42?ref=mail#reviews',
+      hostname: 'shop.example.com',
+      referrer: 'https://google.com/',
+      language: 'de-DE',
+      userAgent: 'Mozilla/5.0 (Test)',
+      ip: '203.0.113.7',
+    });
+  });
+
+  it('should read headers with a get() method', () => {
+    const headers = new Map<string, string>([
+      ['user-agent', 'EdgeRuntime'],
+      ['cf-connecting-ip', '198.51.100.1'],
+      ['dnt', '1'],
+    ]);
+    const request = {
+      url: 'https://shop.example.com/cart?step=2',
+      headers: { get: (name: string) => headers.get(name) ?? null },
+    };
+
+    expect(getRequestContext(request)).toEqual({
+      url: '/cart?step=2',
+      hostname: 'shop.example.com',
+      userAgent: 'EdgeRuntime',
+      ip: '198.51.100.1',
+      doNotTrack: true,
+    });
+  });
+
+  it('should fall back to the socket address', () => {
+    const request = { url: '/', headers: { host: 'example.com' }, socket: { remoteAddress: '192.0.2.5' } };
+
+    expect(getRequestContext(request).ip).toBe('192.0.2.5');
+  });
+
+  it('should return plain contexts unchanged', () => {
+    expect(getRequestContext({ url: '/about', ip: '192.0.2.1' })).toEqual({ url: '/about', ip: '192.0.2.1' });
+  });
+});
+
+describe('Server-side tracking', () => {
+  let transport: Transport;
+
+  beforeEach(() => {
+    transport = { send: jest.fn().mockResolvedValue({ status: 200, data: {} }) };
+  });
+
+  it('should attribute events to the request visitor', async () => {
+    const client = createUmamiClient({ baseUrl: 'https://umami.is', websiteId: 'test-id', server: true, transport });
+
+    await client.withRequest(nodeRequest).trackEvent('add-to-cart', { productId: 42 });
+
+    expect(transport.send).toHaveBeenCalledWith({
+      url: 'https://umami.is/api/send',
+      body: {
+        type: 'event',
+        payload: {
+          hostname: 'shop.example.com',
+          language: 'de-DE',
+          referrer: 'https://google.com/',
+          screen: '',
+          title: '',
+          url: '/products/42?ref=mail#reviews',
+          website: 'test-id',
+          name: 'add-to-cart',
+          data: { productId: 42 },
+          userAgent: 'Mozilla/5.0 (Test)',
+          ip: '203.0.113.7',
+        },
+      },
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (Test)',
+        'X-Forwarded-For': '203.0.113.7',
+      },
+    });
+  });
+
+  it('should accept the request per call', async () => {
+    const client = createUmamiClient({ baseUrl: 'https://umami.is', websiteId: 'test-id', server: true, transport });
+
+    await client.trackEvent('signup', {}, { request: nodeRequest });
+
+    expect(transport.send).toHaveBeenCalledWith(
+      expect.objectContaining({
+        body: expect.objectContaining({
+          payload: expect.objectContaining({ name: 'signup', ip: '203.0.113.7' }),
+        }),
+      })
+    );
+  });
+
+  it('should apply URL options to the request URL', async () => {
+    const client = createUmamiClient({
+      baseUrl: 'https://umami.is',
+      websiteId: 'test-id',
+      server: true,
+      excludeSearch: true,
+      excludeHash: true,
+      transport,
+    });
+
+    await client.withRequest(nodeRequest).trackPageView();
+
+    expect(transport.send).toHaveBeenCalledWith(
+      expect.objectContaining({
+        body: expect.objectContaining({ payload: expect.objectContaining({ url: '/products/42' }) }),
+      })
+    );
+  });
+
+  it('should keep identities of scoped clients separate', async () => {
+    const client = createUmamiClient({ baseUrl: 'https://umami.is', websiteId: 'test-id', server: true, transport });
+    const first = client.withRequest(nodeRequest);
+    const second = client.withRequest(nodeRequest);
+
+    await first.identify('user-1');
+
+    expect(first.getSessionId()).toBe('user-1');
+    expect(second.getSessionId()).toBeUndefined();
+    expect(client.getSessionId()).toBeUndefined();
+  });
+
+  it('should keep consent of scoped clients separate', async () => {
+    const client = createUmamiClient({ baseUrl: 'https://umami.is', websiteId: 'test-id', server: true, transport });
+    const first = client.withRequest(nodeRequest);
+    const second = client.withRequest(nodeRequest);
+
+    first.optOut();
+    await first.trackEvent('signup');
+    await second.trackEvent('signup');
+
+    expect(first.getConsent()).toBe('denied');
+    expect(second.getConsent()).toBe('pending');
+    expect(client.getConsent()).toBe('pending');
+    expect(transport.send).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not send a cache token with batches shared by scoped clients', async () => {
+    (transport.send as jest.Mock).mockResolvedValue({ status: 200, data: { cache: 'visitor-a' } });
+    const client = createUmamiClient({
+      baseUrl: 'https://umami.is',
+      websiteId: 'test-id',
+      server: true,
+      batch: { maxSize: 1 },
+      transport,
+    });
+    const first = client.withRequest(nodeRequest);
+    const second = client.withRequest({
+      ...nodeRequest,
+      headers: { ...nodeRequest.headers, 'x-forwarded-for': '198.51.100.1' },
+    });
+
+    await first.trackEvent('signup');
+    await second.trackEvent('signup');
+
+    expect(transport.send).toHaveBeenCalledTimes(2);
+    expect((transport.send as jest.Mock).mock.calls[1][0].headers).toBeUndefined();
+  });
+
+  it('should honor the DNT header and domain restrictions of the request', async () => {
+    const client = createUmamiClient({
+      baseUrl: 'https://umami.is',
+      websiteId: 'test-id',
+      server: true,
+      doNotTrack: true,
+      domains: ['shop.example.com'],
+      transport,
+    });
+
+    await client.withRequest({ ...nodeRequest, headers: { ...nodeRequest.headers, dnt: '1' } }).trackPageView();
+    await client.withRequest({ ...nodeRequest, headers: { ...nodeRequest.headers, host: 'other.com' } }).trackPageView();
+    expect(transport.send).not.toHaveBeenCalled();
+
+    await client.withRequest(nodeRequest).trackPageView();
+    expect(transport.send).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not read browser globals in server mode', async () => {
+    const client = createUmamiClient({ baseUrl: 'https://umami.is', websiteId: 'test-id', server: true, transport });
+
+    await client.trackPageView('/server-page');
+
+    expect(transport.send).toHaveBeenCalledWith(
+      expect.objectContaining({
+        body: expect.objectContaining({
+          payload: expect.objectContaining({ hostname: '', language: '', screen: '', url: '/server-page' }),
+        }),
+      })
+    );
+  });
+});
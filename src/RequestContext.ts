@@ -0,0 +1,116 @@
+// Visitor context for server-side tracking
+export interface RequestContext {
+    url?: string;
+    hostname?: string;
+    referrer?: string;
+    language?: string;
+    title?: string;
+    screen?: string;
+    userAgent?: string;
+    ip?: string;
+    doNotTrack?: boolean;
+}
+
+// Headers of a Node.js IncomingMessage or a Fetch API Request
+export type RequestHeaders =
+    | Record<string, string | string[] | undefined>
+    | { get(name: string): string | null };
+
+// Minimal shape of an incoming request (Node.js http, Express, Fetch API)
+export interface RequestLike {
+    url?: string;
+    headers: RequestHeaders;
+    ip?: string;
+    socket?: { remoteAddress?: string };
+}
+
+// Headers checked for the client IP, in order, mirroring Umami's own lookup
+const IP_HEADERS = [
+    'true-client-ip',
+    'cf-connecting-ip',
+    'x-client-ip',
+    'x-forwarded-for',
+    'fastly-client-ip',
+    'x-real-ip',
+];
+
+function getHeader(headers: RequestHeaders, name: string): string | undefined {
+    if (typeof (headers as any).get === 'function') {
+        return (headers as { get(name: string): string | null }).get(name) || undefined;
+    }
+
+    const value = (headers as Record<string, string | string[] | undefined>)[name];
+    return Array.isArray(value) ? value[0] : value;
+}
+
+function isRequestLike(request: RequestLike | RequestContext): request is RequestLike {
+    return typeof request === 'object' && request !== null && 'headers' in request && !!request.headers;
+}
+
+/**
+ * Extract the visitor context from an incoming request.
+ * Plain RequestContext objects are returned as they are.
+ *
+ * @param request - Node.js/Express request, Fetch API Request or a RequestContext
+ */
+export function getRequestContext(request: RequestLike | RequestContext): RequestContext {
+    if (!isRequestLike(request)) {
+        return { ...request };
+    }
+
+    const headers = request.headers;
+    const context: RequestContext = {};
+
+    const host = getHeader(headers, 'x-forwarded-host') || getHeader(headers, 'host');
+    if (host) {
+        context.hostname = host.split(':')[0];
+    }
+
+    if (request.url) {
+        try {
+            const url = new URL(request.url, `http://${host || 'localhost'}`);
+            context.url = `${url.pathname}${url.search}${url.hash}`;
+            // Fetch API requests carry an absolute URL
+            if (!context.hostname && /^[a-z][a-z\d+.-]*:\/\//i.test(request.url)) {
+                context.hostname = url.hostname;
+            }
+        } catch {
+            context.url = request.url;
+        }
+    }
+
+    const referrer = getHeader(headers, 'referer');
+    if (referrer) {
+        context.referrer = referrer;
+    }
+
+    const acceptLanguage = getHeader(headers, 'accept-language');
+    if (acceptLanguage) {
+        context.language = acceptLanguage.split(',')[0].split(';')[0].trim();
+    }
+
+    const userAgent = getHeader(headers, 'user-agent');
+    if (userAgent) {
+        context.userAgent = userAgent;
+    }
+
+    for (const name of IP_HEADERS) {
+        const value = getHeader(headers, name);
+        if (value) {
+            context.ip = value.split(',')[0].trim();
+            break;
+        }
+    }
+    if (!context.ip) {
+        const ip = request.ip || request.socket?.remoteAddress;
+        if (ip) {
+            context.ip = ip;
+        }
+    }
+
+    if (getHeader(headers, 'dnt') === '1') {
+        context.doNotTrack = true;
+    }
+
+    return context;
+}
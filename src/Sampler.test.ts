@@ -0,0 +1,154 @@
+import { Sampler } from './Sampler';
+import { createUmamiClient } from './UmamiClient';
+import { UmamiPayload } from './UmamiLogger';
+import { createRecordingTransport } from './testing';
+
+function payload(name?: string, data?: Record<string, unknown>): UmamiPayload {
+  return {
+    hostname: 'example.com',
+    language: 'en-US',
+    referrer: '',
+    screen: '1920x1080',
+    title: 'Home',
+    url: '/',
+    website: 'test-id',
+    name,
+    data,
+  };
+}
+
+describe('Sampler', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should keep everything by default', () => {
+    const sampler = new Sampler({}, () => 0.99);
+
+    expect(sampler.check(payload('signup'), 'event')).toBeUndefined();
+  });
+
+  it('should apply the global sample rate', () => {
+    let value = 0.4;
+    const sampler = new Sampler({ sampleRate: 0.5 }, () => value);
+
+    expect(sampler.check(payload(), 'event')).toBeUndefined();
+    value = 0.6;
+    expect(sampler.check(payload(), 'event')).toBe('sampled');
+  });
+
+  it('should prefer the first matching rule by name or predicate', () => {
+    const sampler = new Sampler(
+      {
+        sampleRate: 1,
+        sampling: [
+          { event: 'scroll', rate: 0.1 },
+          { event: (p) => p.url.startsWith('/search'), rate: 0 },
+        ],
+      },
+      () => 0.5
+    );
+
+    expect(sampler.check(payload('scroll'), 'event')).toBe('sampled');
+    expect(sampler.check({ ...payload(), url: '/search?q=a' }, 'event')).toBe('sampled');
+    expect(sampler.check(payload('signup'), 'event')).toBeUndefined();
+  });
+
+  it('should rate limit per event name and refill over time', () => {
+    jest.useFakeTimers();
+    const sampler = new Sampler({ rateLimit: { maxEvents: 2, interval: 1000, events: { click: 1 } } });
+
+    expect(sampler.check(payload('scroll', { n: 1 }), 'event')).toBeUndefined();
+    expect(sampler.check(payload('scroll', { n: 2 }), 'event')).toBeUndefined();
+    expect(sampler.check(payload('scroll', { n: 3 }), 'event')).toBe('rate-limited');
+    expect(sampler.check(payload('signup'), 'event')).toBeUndefined();
+    expect(sampler.check(payload('click', { n: 1 }), 'event')).toBeUndefined();
+    expect(sampler.check(payload('click', { n: 2 }), 'event')).toBe('rate-limited');
+
+    jest.advanceTimersByTime(500);
+    expect(sampler.check(payload('scroll', { n: 4 }), 'event')).toBeUndefined();
+    expect(sampler.check(payload('scroll', { n: 5 }), 'event')).toBe('rate-limited');
+  });
+
+  it('should suppress duplicates within the window', () => {
+    jest.useFakeTimers();
+    const sampler = new Sampler({ dedupe: { window: 1000 } });
+
+    expect(sampler.check(payload('signup', { plan: 'pro' }), 'event')).toBeUndefined();
+    expect(sampler.check(payload('signup', { plan: 'pro' }), 'event')).toBe('duplicate');
+    expect(sampler.check(payload('signup', { plan: 'free' }), 'event')).toBeUndefined();
+
+    jest.advanceTimersByTime(1000);
+    expect(sampler.check(payload('signup', { plan: 'pro' }), 'event')).toBeUndefined();
+  });
+
+  it('should not treat data that cannot be serialized as a duplicate', () => {
+    const sampler = new Sampler({ dedupe: true });
+    const user: Record<string, unknown> = { plan: 'pro' };
+    user.self = user;
+
+    expect(sampler.check(payload('signup', { user }), 'event')).toBeUndefined();
+    expect(sampler.check(payload('signup', { user }), 'event')).toBeUndefined();
+    expect(sampler.check(payload('signup', { count: BigInt(1) }), 'event')).toBeUndefined();
+  });
+});
+
+describe('Sampling', () => {
+  it('should report dropped events with the reason', async () => {
+    const transport = createRecordingTransport();
+    const onDrop = jest.fn();
+    const client = createUmamiClient({
+      baseUrl: 'https://umami.is',
+      websiteId: 'test-id',
+      transport,
+      sampling: [{ event: 'scroll', rate: 0 }],
+      dedupe: true,
+      onDrop,
+    });
+
+    await client.trackEvent('scroll');
+    await client.trackEvent('signup');
+    await client.trackEvent('signup');
+
+    expect(transport.getRequests()).toHaveLength(1);
+    expect(onDrop).toHaveBeenCalledWith(expect.objectContaining({ name: 'scroll' }), 'sampled');
+    expect(onDrop).toHaveBeenCalledWith(expect.objectContaining({ name: 'signup' }), 'duplicate');
+  });
+
+  it('should send circular data normalized by validation with dedupe on', async () => {
+    const transport = createRecordingTransport();
+    const client = createUmamiClient({
+      baseUrl: 'https://umami.is',
+      websiteId: 'test-id',
+      transport,
+      dedupe: true,
+      validation: { onWarning: () => {} },
+    });
+    const user: Record<string, unknown> = { plan: 'pro' };
+    user.self = user;
+
+    await expect(client.trackEvent('signup', { user })).resolves.toEqual(expect.objectContaining({ status: 'sent' }));
+    expect(transport.getTrackedEvents()[0].payload.data).toEqual({ 'user.plan': 'pro' });
+  });
+
+  it('should not drop replayed events after consent', async () => {
+    localStorage.clear();
+    const transport = createRecordingTransport();
+    const client = createUmamiClient({
+      baseUrl: 'https://umami.is',
+      websiteId: 'test-id',
+      transport,
+      requireConsent: true,
+      rateLimit: { maxEvents: 2 },
+    });
+
+    await client.trackEvent('scroll', { n: 1 });
+    await client.trackEvent('scroll', { n: 2 });
+    client.setConsent('granted');
+    await Promise.resolve();
+
+    expect(transport.getRequests()).toHaveLength(2);
+    client.reset();
+    localStorage.clear();
+  });
+});
@@ -0,0 +1,119 @@
+import { UmamiPayload } from './UmamiLogger';
+
+// Sampling rate for events matching a name or predicate
+export interface SamplingRule {
+    event: string | ((payload: UmamiPayload) => boolean);
+    rate: number;
+}
+
+// Token bucket per event name: up to maxEvents at once, refilled over interval (ms)
+export interface RateLimitOptions {
+    maxEvents?: number;
+    interval?: number;
+    events?: { [eventName: string]: number };
+}
+
+// Suppression of identical events sent within window (ms)
+export interface DedupeOptions {
+    window?: number;
+}
+
+// Why an event was dropped before sending
+export type DropReason = 'sampled' | 'rate-limited' | 'duplicate';
+
+// Sampling and rate limiting options
+export interface SamplerOptions {
+    sampleRate?: number;
+    sampling?: SamplingRule[];
+    rateLimit?: boolean | RateLimitOptions;
+    dedupe?: boolean | DedupeOptions;
+}
+
+const DEFAULT_MAX_EVENTS = 30;
+const DEFAULT_INTERVAL = 60000;
+const DEFAULT_DEDUPE_WINDOW = 1000;
+
+// Bucket key for page views, which have no event name
+const PAGEVIEW_KEY = '';
+
+/**
+ * Decides which events to drop because of sampling, rate limits or duplicates.
+ */
+export class Sampler {
+    private buckets = new Map<string, { tokens: number; updated: number }>();
+    private recent = new Map<string, number>();
+
+    constructor(private options: SamplerOptions, private random: () => number = Math.random) {}
+
+    /**
+     * Check an event and record it when it passes.
+     *
+     * @param payload - Payload of the event
+     * @param type - Payload type, e.g. 'event' or 'identify'
+     * @returns Why the event should be dropped, or undefined to send it
+     */
+    check(payload: UmamiPayload, type: string): DropReason | undefined {
+        const now = Date.now();
+
+        if (this.random() >= this.getRate(payload)) {
+            return 'sampled';
+        }
+
+        if (this.options.dedupe && this.isDuplicate(payload, type, now)) {
+            return 'duplicate';
+        }
+
+        if (this.options.rateLimit && !this.take(payload.name || PAGEVIEW_KEY, now)) {
+            return 'rate-limited';
+        }
+
+        return undefined;
+    }
+
+    private getRate(payload: UmamiPayload): number {
+        const rule = (this.options.sampling || []).find(({ event }) =>
+            typeof event === 'function' ? event(payload) : event === payload.name
+        );
+        const rate = rule ? rule.rate : this.options.sampleRate;
+        return rate === undefined ? 1 : rate;
+    }
+
+    private isDuplicate(payload: UmamiPayload, type: string, now: number): boolean {
+        const options = this.options.dedupe === true ? {} : this.options.dedupe || {};
+        const span = options.window ?? DEFAULT_DEDUPE_WINDOW;
+
+        this.recent.forEach((time, key) => {
+            if (now - time >= span) {
+                this.recent.delete(key);
+            }
+        });
+
+        // Data that can't be serialized (circular, bigint) is left to validation, never a duplicate
+        let key: string;
+        try {
+            key = JSON.stringify([type, payload.name, payload.url, payload.data]);
+        } catch {
+            return false;
+        }
+        if (this.recent.has(key)) return true;
+
+        this.recent.set(key, now);
+        return false;
+    }
+
+    private take(key: string, now: number): boolean {
+        const options = this.options.rateLimit === true ? {} : this.options.rateLimit || {};
+        const capacity = options.events?.[key] ?? options.maxEvents ?? DEFAULT_MAX_EVENTS;
+        const interval = options.interval ?? DEFAULT_INTERVAL;
+
+        const bucket = this.buckets.get(key) || { tokens: capacity, updated: now };
+        bucket.tokens = Math.min(capacity, bucket.tokens + ((now - bucket.updated) / interval) * capacity);
+        bucket.updated = now;
+        this.buckets.set(key, bucket);
+
+        if (bucket.tokens < 1) return false;
+
+        bucket.tokens -= 1;
+        return true;
+    }
+}
@@ -0,0 +1,259 @@
+import UmamiLogger from './UmamiLogger';
+import {
+  Transport,
+  TransportError,
+  createFetchTransport,
+  createBeaconTransport,
+  createUnloadTransport,
+  createXhrTransport,
+  createAxiosTransport,
+} from './Transport';
+
+const request = {
+  url: 'https://umami.is/api/send',
+  body: { type: 'event', payload: { name: 'click' } },
+};
+
+describe('Transports', () => {
+  describe('Fetch', () => {
+    it('should post JSON and parse the response', async () => {
+      const mockFetch = jest.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        text: () => Promise.resolve('{"sessionId":"abc"}'),
+      });
+      const transport = createFetchTransport(mockFetch);
+
+      const response = await transport.send({ ...request, headers: { 'x-test': '1' }, keepalive: true });
+
+      expect(mockFetch).toHaveBeenCalledWith('https://umami.is/api/send', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-test': '1' },
+        body: JSON.stringify(request.body),
+        keepalive: true,
+      });
+      expect(response).toEqual({ status: 200, data: { sessionId: 'abc' } });
+    });
+
+    it('should throw a TransportError on HTTP errors', async () => {
+      const mockFetch = jest.fn().mockResolvedValue({ ok: false, status: 500, text: () => Promise.resolve('') });
+      const transport = createFetchTransport(mockFetch);
+
+      await expect(transport.send(request)).rejects.toEqual(expect.objectContaining({ status: 500 }));
+      await expect(transport.send(request)).rejects.toBeInstanceOf(TransportError);
+    });
+  });
+
+  describe('Beacon', () => {
+    it('should send the body with navigator.sendBeacon', async () => {
+      const sendBeacon = jest.fn().mockReturnValue(true);
+      Object.defineProperty(navigator, 'sendBeacon', { value: sendBeacon, writable: true, configurable: true });
+
+      await expect(createBeaconTransport().send(request)).resolves.toEqual({ status: 0, data: {} });
+      expect(sendBeacon).toHaveBeenCalledWith('https://umami.is/api/send', expect.any(Blob));
+    });
+
+    it('should throw when the beacon is rejected', async () => {
+      Object.defineProperty(navigator, 'sendBeacon', {
+        value: jest.fn().mockReturnValue(false),
+        writable: true,
+        configurable: true,
+      });
+
+      await expect(createBeaconTransport().send(request)).rejects.toBeInstanceOf(TransportError);
+    });
+  });
+
+  describe('XMLHttpRequest', () => {
+    const OriginalXhr = window.XMLHttpRequest;
+    let xhr: any;
+
+    beforeEach(() => {
+      (window as any).XMLHttpRequest = jest.fn(() => {
+        xhr = {
+          open: jest.fn(),
+          setRequestHeader: jest.fn(),
+          send: jest.fn(),
+        };
+        return xhr;
+      });
+    });
+
+    afterEach(() => {
+      window.XMLHttpRequest = OriginalXhr;
+    });
+
+    it('should post JSON and parse the response', async () => {
+      const result = createXhrTransport().send({ ...request, headers: { 'x-test': '1' } });
+      xhr.status = 200;
+      xhr.responseText = '{"visitId":"v1"}';
+      xhr.onload();
+
+      await expect(result).resolves.toEqual({ status: 200, data: { visitId: 'v1' } });
+      expect(xhr.open).toHaveBeenCalledWith('POST', 'https://umami.is/api/send', true);
+      expect(xhr.setRequestHeader).toHaveBeenCalledWith('x-test', '1');
+      expect(xhr.send).toHaveBeenCalledWith(JSON.stringify(request.body));
+    });
+
+    it('should reject on HTTP errors', async () => {
+      const result = createXhrTransport().send(request);
+      xhr.status = 400;
+      xhr.onload();
+
+      await expect(result).rejects.toEqual(expect.objectContaining({ status: 400 }));
+    });
+  });
+
+  describe('Axios', () => {
+    it('should post through the given client', async () => {
+      const client = { post: jest.fn().mockResolvedValue({ status: 200, data: { cache: 'token' } }) };
+
+      const response = await createAxiosTransport(client).send(request);
+
+      expect(client.post).toHaveBeenCalledWith('https://umami.is/api/send', request.body);
+      expect(response).toEqual({ status: 200, data: { cache: 'token' } });
+    });
+  });
+});
+
+describe('UmamiLogger transport option', () => {
+  beforeEach(() => {
+    UmamiLogger.resetInstance();
+  });
+
+  it('should send through a custom transport', async () => {
+    const transport: Transport = { send: jest.fn().mockResolvedValue({ status: 200, data: { sessionId: 's1' } }) };
+    const umami = UmamiLogger.getInstance();
+    umami.initialize({ baseUrl: 'https://umami.is', websiteId: 'test-id', transport });
+
+    const result = await umami.logEvent('click', { buttonId: 'signup' });
+
+    expect(transport.send).toHaveBeenCalledWith({
+      url: 'https://umami.is/api/send',
+      body: {
+        type: 'event',
+        payload: expect.objectContaining({ name: 'click', data: { buttonId: 'signup' } }),
+      },
+    });
+    expect(result).toEqual({ status: 'sent', response: { sessionId: 's1' } });
+  });
+
+  it('should fall back to fetch when no transport is configured', async () => {
+    const mockFetch = jest.fn().mockResolvedValue({ ok: true, status: 200, text: () => Promise.resolve('{}') });
+    (global as any).fetch = mockFetch;
+    const umami = UmamiLogger.getInstance();
+    umami.initialize({ baseUrl: 'https://umami.is', websiteId: 'test-id' });
+
+    await umami.logEvent('click');
+
+    expect(mockFetch).toHaveBeenCalledWith('https://umami.is/api/send', expect.objectContaining({ method: 'POST' }));
+    delete (global as any).fetch;
+  });
+});
+
+describe('Unload delivery', () => {
+  let sendBeacon: jest.Mock;
+  let transport: Transport;
+
+  beforeEach(() => {
+    UmamiLogger.resetInstance();
+    sendBeacon = jest.fn().mockReturnValue(true);
+    Object.defineProperty(navigator, 'sendBeacon', { value: sendBeacon, writable: true, configurable: true });
+    Object.defineProperty(document, 'visibilityState', { value: 'visible', writable: true, configurable: true });
+    transport = { send: jest.fn().mockResolvedValue({ status: 200, data: {} }) };
+  });
+
+  afterEach(() => {
+    UmamiLogger.resetInstance();
+    delete (navigator as any).sendBeacon;
+    delete (global as any).fetch;
+  });
+
+  it('should fall back to fetch with keepalive when the beacon is rejected', async () => {
+    sendBeacon.mockReturnValue(false);
+    const mockFetch = jest.fn().mockResolvedValue({ ok: true, status: 200, text: () => Promise.resolve('') });
+    (global as any).fetch = mockFetch;
+
+    await createUnloadTransport().send(request);
+
+    expect(mockFetch).toHaveBeenCalledWith(request.url, expect.objectContaining({ keepalive: true }));
+  });
+
+  it('should fall back to the given transport instead of fetch when the beacon is rejected', async () => {
+    sendBeacon.mockReturnValue(false);
+    const mockFetch = jest.fn();
+    (global as any).fetch = mockFetch;
+
+    await createUnloadTransport(transport).send(request);
+
+    expect(transport.send).toHaveBeenCalledWith({ ...request, keepalive: true });
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should send with sendBeacon without the cache token', async () => {
+    await createUnloadTransport(transport).send({ ...request, headers: { 'x-umami-cache': 'token-1' } });
+
+    expect(sendBeacon).toHaveBeenCalledWith(request.url, expect.any(Blob));
+    expect(transport.send).not.toHaveBeenCalled();
+  });
+
+  it('should skip sendBeacon for requests with other headers', async () => {
+    const headers = { 'x-umami-cache': 'token-1', 'User-Agent': 'test-agent' };
+
+    await createUnloadTransport(transport).send({ ...request, headers });
+
+    expect(sendBeacon).not.toHaveBeenCalled();
+    expect(transport.send).toHaveBeenCalledWith({ ...request, headers, keepalive: true });
+  });
+
+  it('should keep using sendBeacon after a response carried a cache token', async () => {
+    (transport.send as jest.Mock).mockResolvedValue({ status: 200, data: { cache: 'token-1' } });
+    const umami = UmamiLogger.getInstance();
+    umami.initialize({ baseUrl: 'https://umami.is', websiteId: 'test-id', transport });
+
+    await umami.logEvent('signup');
+    await umami.logEvent('outbound-click', {}, { beacon: true });
+
+    expect(sendBeacon).toHaveBeenCalledTimes(1);
+    expect(transport.send).toHaveBeenCalledTimes(1);
+  });
+
+  it('should send a single event with sendBeacon when beacon is requested', async () => {
+    const umami = UmamiLogger.getInstance();
+    umami.initialize({ baseUrl: 'https://umami.is', websiteId: 'test-id', transport });
+
+    await umami.logEvent('outbound-click', { url: 'https://example.com' }, { beacon: true });
+
+    expect(sendBeacon).toHaveBeenCalledWith('https://umami.is/api/send', expect.any(Blob));
+    expect(transport.send).not.toHaveBeenCalled();
+  });
+
+  it('should use sendBeacon for events sent while the page is hidden', async () => {
+    const umami = UmamiLogger.getInstance();
+    umami.initialize({ baseUrl: 'https://umami.is', websiteId: 'test-id', transport });
+
+    Object.defineProperty(document, 'visibilityState', { value: 'hidden', writable: true, configurable: true });
+    document.dispatchEvent(new Event('visibilitychange'));
+    await umami.logEvent('checkout-abandoned');
+
+    expect(sendBeacon).toHaveBeenCalledTimes(1);
+
+    Object.defineProperty(document, 'visibilityState', { value: 'visible', writable: true, configurable: true });
+    document.dispatchEvent(new Event('visibilitychange'));
+    await umami.logEvent('back-again');
+
+    expect(sendBeacon).toHaveBeenCalledTimes(1);
+    expect(transport.send).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep the regular transport on page hide when beaconOnUnload is false', async () => {
+    const umami = UmamiLogger.getInstance();
+    umami.initialize({ baseUrl: 'https://umami.is', websiteId: 'test-id', transport, beaconOnUnload: false });
+
+    window.dispatchEvent(new Event('pagehide'));
+    await umami.logEvent('checkout-abandoned');
+
+    expect(sendBeacon).not.toHaveBeenCalled();
+    expect(transport.send).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,196 @@
+// Request handed to a transport
+export interface TransportRequest {
+    url: string;
+    body: unknown;
+    headers?: Record<string, string>;
+    keepalive?: boolean;
+}
+
+// Response returned by a transport
+export interface TransportResponse<T = any> {
+    status: number;
+    data: T;
+}
+
+// Transport used to deliver requests to the Umami API
+export interface Transport {
+    send(request: TransportRequest): Promise<TransportResponse>;
+}
+
+// Minimal shape of an axios instance, so axios stays an optional dependency
+export interface AxiosLike {
+    post(url: string, data?: any, config?: { headers?: Record<string, string> }): Promise<{ status: number; data: any }>;
+}
+
+/**
+ * Error thrown by the built-in transports when a request fails.
+ */
+export class TransportError extends Error {
+    constructor(message: string, public status?: number, public response?: TransportResponse) {
+        super(message);
+        this.name = 'TransportError';
+    }
+}
+
+// Header carrying Umami's cache token
+const CACHE_HEADER = 'x-umami-cache';
+
+function parseJson(text: string): any {
+    try {
+        return text ? JSON.parse(text) : {};
+    } catch {
+        return {};
+    }
+}
+
+/**
+ * Transport using the Fetch API. Works in browsers, Node 18+ and edge runtimes.
+ *
+ * @param fetchImpl - Optional fetch implementation, defaults to the global fetch
+ */
+export function createFetchTransport(fetchImpl?: typeof fetch): Transport {
+    return {
+        async send(request) {
+            const doFetch = fetchImpl || fetch;
+            const response = await doFetch(request.url, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', ...request.headers },
+                body: JSON.stringify(request.body),
+                keepalive: request.keepalive,
+            });
+
+            const data = parseJson(await response.text());
+            if (!response.ok) {
+                throw new TransportError(`Request failed with status ${response.status}`, response.status, {
+                    status: response.status,
+                    data,
+                });
+            }
+
+            return { status: response.status, data };
+        },
+    };
+}
+
+/**
+ * Transport using navigator.sendBeacon. Requests survive page unload, but
+ * custom headers are not supported and the response can't be read.
+ */
+export function createBeaconTransport(): Transport {
+    return {
+        async send(request) {
+            if (typeof navigator === 'undefined' || typeof navigator.sendBeacon !== 'function') {
+                throw new TransportError('navigator.sendBeacon is not available');
+            }
+
+            // text/plain keeps the request CORS-safelisted, Umami parses the body as JSON regardless
+            const body = new Blob([JSON.stringify(request.body)], { type: 'text/plain' });
+            if (!navigator.sendBeacon(request.url, body)) {
+                throw new TransportError('navigator.sendBeacon rejected the request');
+            }
+
+            return { status: 0, data: {} };
+        },
+    };
+}
+
+/**
+ * Transport for requests that must survive page unload. Tries navigator.sendBeacon first,
+ * without the cache token, then the fallback transport with the keepalive flag set, or fetch
+ * with keepalive without one. Requests with other custom headers skip the beacon.
+ *
+ * @param fallback - Transport used when sendBeacon isn't possible, e.g. the configured one
+ */
+export function createUnloadTransport(fallback?: Transport): Transport {
+    const beacon = createBeaconTransport();
+
+    return {
+        async send(request) {
+            // Beacons can't carry custom headers. The cache token is only a shortcut, Umami
+            // recomputes the same session without it, so it alone doesn't rule out a beacon.
+            const headers = Object.keys(request.headers || {}).filter((name) => name !== CACHE_HEADER);
+            if (headers.length === 0) {
+                try {
+                    return await beacon.send({ url: request.url, body: request.body });
+                } catch {
+                    // Not available or payload too large, try keepalive next
+                }
+            }
+
+            const keepaliveRequest = { ...request, keepalive: true };
+            if (fallback) {
+                return fallback.send(keepaliveRequest);
+            }
+            if (typeof fetch === 'function') {
+                return createFetchTransport().send(keepaliveRequest);
+            }
+            throw new TransportError('No transport available for delivery on unload');
+        },
+    };
+}
+
+/**
+ * Transport using XMLHttpRequest, for older browsers without fetch.
+ */
+export function createXhrTransport(): Transport {
+    return {
+        send(request) {
+            return new Promise((resolve, reject) => {
+                const xhr = new XMLHttpRequest();
+                xhr.open('POST', request.url, true);
+                xhr.setRequestHeader('Content-Type', 'application/json');
+                Object.keys(request.headers || {}).forEach((name) => {
+                    xhr.setRequestHeader(name, request.headers![name]);
+                });
+
+                xhr.onload = () => {
+                    const response = { status: xhr.status, data: parseJson(xhr.responseText) };
+                    if (xhr.status >= 200 && xhr.status < 300) {
+                        resolve(response);
+                    } else {
+                        reject(new TransportError(`Request failed with status ${xhr.status}`, xhr.status, response));
+                    }
+                };
+                xhr.onerror = () => reject(new TransportError('Network error'));
+                xhr.ontimeout = () => reject(new TransportError('Request timed out'));
+
+                xhr.send(JSON.stringify(request.body));
+            });
+        },
+    };
+}
+
+/**
+ * Transport using an axios instance, e.g. one with app-wide interceptors.
+ *
+ * @param client - axios or an instance created with axios.create()
+ */
+export function createAxiosTransport(client: AxiosLike): Transport {
+    return {
+        async send(request) {
+            const response = request.headers && Object.keys(request.headers).length > 0
+                ? await client.post(request.url, request.body, { headers: request.headers })
+                : await client.post(request.url, request.body);
+            return { status: response.status, data: response.data };
+        },
+    };
+}
+
+/**
+ * Pick the best transport available in the current environment.
+ */
+export function createDefaultTransport(): Transport {
+    if (typeof fetch === 'function') {
+        return createFetchTransport();
+    }
+
+    if (typeof XMLHttpRequest !== 'undefined') {
+        return createXhrTransport();
+    }
+
+    return {
+        send() {
+            return Promise.reject(new TransportError('No transport available, configure one with the transport option'));
+        },
+    };
+}
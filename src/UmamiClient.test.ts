@@ -0,0 +1,202 @@
+import Umami, { createUmamiClient } from './index';
+import UmamiLogger from './UmamiLogger';
+import { Transport } from './Transport';
+
+function createTransport(): Transport {
+  return { send: jest.fn().mockResolvedValue({ status: 200, data: {} }) };
+}
+
+describe('createUmamiClient', () => {
+  afterEach(() => {
+    Umami.reset();
+  });
+
+  it('should create independent clients', async () => {
+    const shellTransport = createTransport();
+    const widgetTransport = createTransport();
+    const shell = createUmamiClient({ baseUrl: 'https://umami.is', websiteId: 'shell-id', transport: shellTransport });
+    const widget = createUmamiClient({ baseUrl: 'https://umami.is', websiteId: 'widget-id', transport: widgetTransport });
+
+    await shell.trackEvent('shell-event');
+    await widget.trackEvent('widget-event');
+
+    expect(shellTransport.send).toHaveBeenCalledWith(
+      expect.objectContaining({
+        body: expect.objectContaining({ payload: expect.objectContaining({ website: 'shell-id', name: 'shell-event' }) }),
+      })
+    );
+    expect(widgetTransport.send).toHaveBeenCalledWith(
+      expect.objectContaining({
+        body: expect.objectContaining({ payload: expect.objectContaining({ website: 'widget-id', name: 'widget-event' }) }),
+      })
+    );
+  });
+
+  it('should not share state with other clients or the default export', async () => {
+    const client = createUmamiClient({ baseUrl: 'https://umami.is', websiteId: 'client-id', transport: createTransport() });
+    Umami.initialize({ baseUrl: 'https://umami.is', websiteId: 'default-id', transport: createTransport() });
+
+    await client.identify('user-1');
+    client.setTag('client-tag');
+
+    expect(client.getSessionId()).toBe('user-1');
+    expect(Umami.getSessionId()).toBeUndefined();
+    expect(Umami.getConfig()?.tag).toBeUndefined();
+    expect(UmamiLogger.getInstance().getConfig()?.websiteId).toBe('default-id');
+  });
+
+  it('should allow initializing later', () => {
+    const client = createUmamiClient();
+    expect(client.getConfig()).toBeUndefined();
+
+    client.initialize({ baseUrl: 'https://umami.is', websiteId: 'late-id' });
+
+    expect(client.getConfig()?.websiteId).toBe('late-id');
+  });
+
+  it('should only reset its own state', async () => {
+    const client = createUmamiClient({ baseUrl: 'https://umami.is', websiteId: 'client-id', transport: createTransport() });
+    Umami.initialize({ baseUrl: 'https://umami.is', websiteId: 'default-id' });
+
+    client.reset();
+
+    expect(client.getConfig()).toBeUndefined();
+    expect(Umami.getConfig()?.websiteId).toBe('default-id');
+  });
+
+  it('should clear its stored cache token on reset', async () => {
+    const transport = { send: jest.fn().mockResolvedValue({ status: 200, data: { cache: 'token-1' } }) };
+    const client = createUmamiClient({ baseUrl: 'https://umami.is', websiteId: 'client-id', transport });
+
+    await client.trackEvent('signup');
+    expect(sessionStorage.getItem('umami.cache.client-id')).toBe('token-1');
+
+    client.reset();
+
+    expect(sessionStorage.getItem('umami.cache.client-id')).toBeNull();
+  });
+});
+
+describe('Event catalog', () => {
+  type Events = {
+    signup: { plan: 'free' | 'pro' };
+    logout: undefined;
+    purchase: { revenue: number; currency: string; orderId: string };
+  };
+
+  it('should only accept known events with matching data', async () => {
+    const transport = createTransport();
+    const client = createUmamiClient<Events>({ baseUrl: 'https://umami.is', websiteId: 'test-id', transport });
+
+    await client.trackEvent('signup', { plan: 'pro' });
+    await client.trackEvent('logout');
+    await client.track('signup', { plan: 'free' });
+    await client.trackRevenue('purchase', 19.99, 'EUR', { orderId: 'A-1' });
+
+    // @ts-expect-error unknown event name
+    await client.trackEvent('sigup', { plan: 'pro' });
+    // @ts-expect-error data doesn't match the catalog
+    await client.trackEvent('signup', { plan: 'enterprise' });
+    // @ts-expect-error unknown event name
+    await client.track('sigup');
+    // @ts-expect-error data is required by the catalog
+    await client.trackEvent('signup');
+    // @ts-expect-error data is required by the catalog
+    await client.track('signup');
+    // @ts-expect-error additional data is required by the catalog
+    await client.trackRevenue('purchase', 19.99, 'EUR');
+
+    expect(transport.send).toHaveBeenCalledWith(
+      expect.objectContaining({
+        body: expect.objectContaining({
+          payload: expect.objectContaining({
+            name: 'purchase',
+            data: { revenue: 19.99, currency: 'EUR', orderId: 'A-1' },
+          }),
+        }),
+      })
+    );
+  });
+
+  it('should drop events rejected by the runtime validator', async () => {
+    const transport = createTransport();
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const validateEvent = jest.fn((name: string) => ['signup', 'logout'].includes(name));
+    const client = createUmamiClient({ baseUrl: 'https://umami.is', websiteId: 'test-id', transport, validateEvent });
+
+    await client.trackEvent('signup', { plan: 'pro' });
+    await client.trackEvent('sigup', { plan: 'pro' });
+    await client.trackPageView();
+
+    expect(validateEvent).toHaveBeenCalledWith('signup', { plan: 'pro' });
+    expect(transport.send).toHaveBeenCalledTimes(2);
+    expect(warn).toHaveBeenCalledWith('Umami: dropped invalid event "sigup"');
+    warn.mockRestore();
+  });
+});
+
+describe('Send results', () => {
+  it('should tell sent, skipped and failed calls apart', async () => {
+    const client = createUmamiClient({
+      baseUrl: 'https://umami.is',
+      websiteId: 'test-id',
+      transport: { send: jest.fn().mockResolvedValue({ status: 200, data: { sessionId: 'session-1' } }) },
+      beforeSend: (payload) => (payload.name === 'internal' ? null : payload),
+    });
+
+    await expect(client.trackEvent('signup')).resolves.toEqual({ status: 'sent', response: { sessionId: 'session-1' } });
+    await expect(client.trackEvent('internal')).resolves.toEqual({ status: 'skipped', reason: 'beforeSend' });
+    await expect(createUmamiClient().trackPageView()).resolves.toEqual({ status: 'skipped', reason: 'notInitialized' });
+
+    const failing = createUmamiClient({
+      baseUrl: 'https://umami.is',
+      websiteId: 'test-id',
+      transport: { send: jest.fn().mockRejectedValue(new Error('Network error')) },
+      logger: false,
+    });
+    await expect(failing.identify('user-1')).resolves.toEqual({ status: 'failed', error: expect.any(Error) });
+  });
+
+  it('should skip blocked calls with the reason', async () => {
+    const client = createUmamiClient({
+      baseUrl: 'https://umami.is',
+      websiteId: 'test-id',
+      transport: createTransport(),
+      domains: ['example.com'],
+    });
+
+    await expect(client.trackRevenue('purchase', 10, 'EUR')).resolves.toEqual({ status: 'skipped', reason: 'domain' });
+    await expect(client.track('signup')).resolves.toEqual({ status: 'skipped', reason: 'domain' });
+  });
+
+  it('should return the previous shape with legacyResults', async () => {
+    const client = createUmamiClient({
+      baseUrl: 'https://umami.is',
+      websiteId: 'test-id',
+      transport: { send: jest.fn().mockResolvedValue({ status: 200, data: { sessionId: 'session-1' } }) },
+      beforeSend: (payload) => (payload.name === 'internal' ? null : payload),
+      legacyResults: true,
+    });
+
+    await expect(client.trackEvent('signup')).resolves.toEqual({ sessionId: 'session-1' });
+    await expect(client.trackEvent('internal')).resolves.toBeUndefined();
+  });
+
+  it('should return the previous shape from the default client with legacyResults', async () => {
+    const transport = { send: jest.fn().mockResolvedValue({ status: 200, data: { sessionId: 'session-1' } }) };
+
+    const umami = Umami.initialize({ baseUrl: 'https://umami.is', websiteId: 'test-id', transport, legacyResults: true });
+
+    expect(umami).toBe(Umami);
+    await expect(Umami.trackEvent('signup')).resolves.toEqual({ sessionId: 'session-1' });
+    await expect(umami.withRequest({ url: '/checkout' }).trackEvent('signup')).resolves.toEqual({
+      sessionId: 'session-1',
+    });
+
+    Umami.initialize({ baseUrl: 'https://umami.is', websiteId: 'test-id', transport });
+    await expect(Umami.trackEvent('signup')).resolves.toEqual({
+      status: 'sent',
+      response: { sessionId: 'session-1' },
+    });
+  });
+});
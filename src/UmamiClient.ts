@@ -0,0 +1,447 @@
+import UmamiLogger, {
+    UmamiConfig,
+    UmamiPayload,
+    UmamiResponse,
+    EventData,
+    IdentifyData,
+    PayloadCallback,
+    SendOptions,
+    SendResult,
+} from './UmamiLogger';
+import { ClickTrackingOptions } from './ClickTracker';
+import { LinkTrackingOptions } from './LinkTracker';
+import { ErrorTrackingOptions } from './ErrorTracker';
+import { WebVitalsOptions } from './WebVitals';
+import { EngagementOptions } from './Engagement';
+import { ConsentState } from './Consent';
+import { ClientEventMap, ClientEventHandler } from './Emitter';
+import { RequestContext, RequestLike } from './RequestContext';
+
+// Catalog of known events, mapping each event name to its data (undefined or void for events without data)
+export type EventMap = { [K in string]: EventData | undefined | void };
+
+// Constraint for event catalogs, also met by interfaces
+export type EventCatalog<Events> = { [K in keyof Events]: EventData | undefined | void };
+
+// Names of the events in a catalog
+export type EventName<Events> = Extract<keyof Events, string>;
+
+// True without strictNullChecks, where `Data | undefined` is the same type as `Data`
+type LooseNullChecks = undefined extends {} ? true : false;
+
+// Whether an event may be sent without data: its data is undefined or void, includes void,
+// or includes undefined where strictNullChecks tells it apart
+export type DataIsOptional<Data> = [Data] extends [undefined | void]
+    ? true
+    : void extends Data
+      ? true
+      : LooseNullChecks extends true
+        ? false
+        : undefined extends Data
+          ? true
+          : false;
+
+// Data argument of an event, optional when the event may be sent without data
+export type EventDataArg<Data> = DataIsOptional<Data> extends true ? [eventData?: Data] : [eventData: Data];
+
+// Additional data of a revenue event, revenue and currency are passed separately
+export type RevenueDataArg<Data> = DataIsOptional<Data> extends true
+    ? [additionalData?: Omit<Exclude<Data, undefined | void>, 'revenue' | 'currency'>]
+    : [additionalData: Omit<Data, 'revenue' | 'currency'>];
+
+// Result of tracking calls with the legacyResults option
+export type LegacyResult = UmamiResponse | void;
+
+// Public API of an Umami client, typed by its event catalog and the result of tracking calls
+export interface UmamiClient<Events extends EventCatalog<Events> = EventMap, Result = SendResult> {
+    initialize(config: UmamiConfig & { legacyResults: true }): UmamiClient<Events, LegacyResult>;
+    initialize(config: UmamiConfig): UmamiClient<Events>;
+    trackEvent<Name extends EventName<Events>>(
+        eventName: Name,
+        ...args: [...EventDataArg<Events[Name]>, SendOptions?]
+    ): Promise<Result>;
+    trackPageView(overrideUrl?: string): Promise<Result>;
+    track(): Promise<Result>;
+    track<Name extends EventName<Events>>(eventName: Name, ...args: EventDataArg<Events[Name]>): Promise<Result>;
+    track(payloadOrCallback: Partial<UmamiPayload> | PayloadCallback): Promise<Result>;
+    trackRevenue<Name extends EventName<Events>>(
+        eventName: Name,
+        revenue: number,
+        currency: string,
+        ...args: RevenueDataArg<Events[Name]>
+    ): Promise<Result>;
+    identify(uniqueIdOrData?: string | IdentifyData, data?: IdentifyData): Promise<Result>;
+    getSessionId(): string | undefined;
+    getSessionData(): IdentifyData | undefined;
+    clearIdentity(): void;
+    setTag(tag: string): void;
+    clearTag(): void;
+    flushQueue(): Promise<void>;
+    flushBatch(): Promise<void>;
+    getConfig(): UmamiConfig | undefined;
+    setConsent(state: ConsentState): void;
+    getConsent(): ConsentState;
+    optOut(): void;
+    on<K extends keyof ClientEventMap>(type: K, handler: ClientEventHandler<K>): () => void;
+    off<K extends keyof ClientEventMap>(type: K, handler: ClientEventHandler<K>): void;
+    stopAutoTrack(): void;
+    trackClicks(options?: ClickTrackingOptions): () => void;
+    trackLinks(options?: LinkTrackingOptions): () => void;
+    trackErrors(options?: ErrorTrackingOptions): () => void;
+    trackWebVitals(options?: WebVitalsOptions): () => void;
+    trackEngagement(options?: EngagementOptions): () => void;
+    withRequest(request: RequestLike | RequestContext): UmamiClient<Events, Result>;
+    reset(): void;
+}
+
+/**
+ * Convert a send result to the shape tracking calls returned before results were typed:
+ * the response when the event was sent, undefined otherwise.
+ *
+ * @param result - Result of a tracking call
+ */
+export function toLegacyResult(result: SendResult): LegacyResult {
+    return result.status === 'sent' ? result.response : undefined;
+}
+
+/**
+ * Run a tracking call nobody awaits, e.g. from a click handler or router hook. A rejection,
+ * such as a strict validation failure, is logged through the client's logger instead of
+ * becoming an unhandled rejection.
+ *
+ * @param client - Client that made the call, its configured logger is used
+ * @param result - Promise returned by the tracking call
+ */
+export function trackInBackground(client: Pick<UmamiClient<any, any>, 'getConfig'>, result: Promise<unknown>): void {
+    result.catch((error) => {
+        const logger = client.getConfig()?.logger === undefined ? console : client.getConfig()!.logger;
+        if (logger) {
+            logger.error('Error tracking event:', error);
+        }
+    });
+}
+
+/**
+ * Build the client API on top of a logger.
+ *
+ * @param getLogger - Returns the logger to use for each call
+ * @param reset - Replaces the logger with a fresh one
+ */
+export function bindClient<Events extends EventCatalog<Events> = EventMap, Result = SendResult>(
+    getLogger: () => UmamiLogger,
+    reset: () => void
+): UmamiClient<Events, Result> {
+    // Apply the legacyResults option of the logger's current configuration
+    const format = (logger: UmamiLogger, result: Promise<SendResult>): Promise<SendResult | LegacyResult> =>
+        logger.getConfig()?.legacyResults ? result.then(toLegacyResult) : result;
+
+    const client: UmamiClient<EventMap, SendResult | LegacyResult> = {
+        /**
+         * Initialize the Umami logger with configuration.
+         *
+         * @param config - Configuration options
+         * @returns The client, typed by the result format `legacyResults` selects
+         */
+        initialize(config: UmamiConfig): UmamiClient<EventMap, any> {
+            getLogger().initialize(config);
+            return client;
+        },
+
+        /**
+         * Track a custom event.
+         *
+         * @param eventName - Name of the event
+         * @param eventData - Optional data to attach to the event
+         * @param options - Optional delivery options, e.g. { beacon: true } for events sent right before navigation
+         */
+        trackEvent(eventName: string, eventData?: EventData, options?: SendOptions): Promise<SendResult | LegacyResult> {
+            const logger = getLogger();
+            return format(logger, logger.logEvent(eventName, eventData, options));
+        },
+
+        /**
+         * Track a page view.
+         *
+         * @param overrideUrl - Optional URL to override the default
+         */
+        trackPageView(overrideUrl?: string): Promise<SendResult | LegacyResult> {
+            const logger = getLogger();
+            return format(logger, logger.trackPageView(overrideUrl));
+        },
+
+        /**
+         * Generic track function with multiple overloads.
+         * Mimics umami.track() behavior from the official tracker.
+         *
+         * @overload track() - Track current page view
+         * @overload track(eventName: string) - Track named event
+         * @overload track(eventName: string, data: EventData) - Track named event with data
+         * @overload track(payload: Partial<UmamiPayload>) - Track with custom payload
+         * @overload track(callback: PayloadCallback) - Track with callback to modify payload
+         */
+        track(
+            eventNameOrPayloadOrCallback?: string | Partial<UmamiPayload> | PayloadCallback,
+            eventData?: EventData
+        ): Promise<SendResult | LegacyResult> {
+            const logger = getLogger();
+            return format(logger, logger.track(eventNameOrPayloadOrCallback, eventData));
+        },
+
+        /**
+         * Track a revenue event.
+         *
+         * @param eventName - Name of the event (e.g., 'checkout-cart', 'purchase')
+         * @param revenue - The revenue amount
+         * @param currency - ISO 4217 currency code (e.g., 'USD', 'EUR')
+         * @param additionalData - Optional additional event data
+         */
+        trackRevenue(
+            eventName: string,
+            revenue: number,
+            currency: string,
+            additionalData?: EventData
+        ): Promise<SendResult | LegacyResult> {
+            const logger = getLogger();
+            return format(logger, logger.trackRevenue(eventName, revenue, currency, additionalData));
+        },
+
+        /**
+         * Identify the current session with a unique ID and optional data.
+         * This links all subsequent events to this identity.
+         *
+         * @overload identify(uniqueId: string) - Identify with just an ID
+         * @overload identify(uniqueId: string, data: IdentifyData) - Identify with ID and data
+         * @overload identify(data: IdentifyData) - Identify with just data (session data)
+         */
+        identify(
+            uniqueIdOrData?: string | IdentifyData,
+            data?: IdentifyData
+        ): Promise<SendResult | LegacyResult> {
+            const logger = getLogger();
+            return format(logger, logger.identify(uniqueIdOrData, data));
+        },
+
+        /**
+         * Get the current session ID.
+         */
+        getSessionId(): string | undefined {
+            return getLogger().getSessionId();
+        },
+
+        /**
+         * Get the current session data.
+         */
+        getSessionData(): IdentifyData | undefined {
+            return getLogger().getSessionData();
+        },
+
+        /**
+         * Clear the current session identity.
+         */
+        clearIdentity(): void {
+            getLogger().clearIdentity();
+        },
+
+        /**
+         * Set a tag for all subsequent events.
+         *
+         * @param tag - Tag to assign to events
+         */
+        setTag(tag: string): void {
+            getLogger().setTag(tag);
+        },
+
+        /**
+         * Clear the current tag.
+         */
+        clearTag(): void {
+            getLogger().clearTag();
+        },
+
+        /**
+         * Send all events waiting in the offline queue now.
+         */
+        flushQueue(): Promise<void> {
+            return getLogger().flushQueue();
+        },
+
+        /**
+         * Send all events buffered in batch mode now.
+         */
+        flushBatch(): Promise<void> {
+            return getLogger().flushBatch();
+        },
+
+        /**
+         * Get the current configuration.
+         */
+        getConfig(): UmamiConfig | undefined {
+            return getLogger().getConfig();
+        },
+
+        /**
+         * Set the visitor's consent decision. It is persisted across reloads.
+         * Events held back while consent was pending are sent on 'granted' and dropped on 'denied'.
+         *
+         * @param state - 'granted', 'denied' or 'pending'
+         */
+        setConsent(state: ConsentState): void {
+            getLogger().setConsent(state);
+        },
+
+        /**
+         * Get the visitor's consent decision.
+         */
+        getConsent(): ConsentState {
+            return getLogger().getConsent();
+        },
+
+        /**
+         * Opt the visitor out of tracking. Stays in effect across reloads.
+         */
+        optOut(): void {
+            getLogger().optOut();
+        },
+
+        /**
+         * Listen for lifecycle events: 'sent', 'failed', 'blocked' (DNT, domain, consent)
+         * and 'filtered' (beforeSend, validation, sampling).
+         *
+         * @param type - Event name
+         * @param handler - Called with the event object
+         * @returns Function that removes the handler
+         */
+        on<K extends keyof ClientEventMap>(type: K, handler: ClientEventHandler<K>): () => void {
+            return getLogger().on(type, handler);
+        },
+
+        /**
+         * Remove a lifecycle event handler.
+         *
+         * @param type - Event name
+         * @param handler - Handler passed to on()
+         */
+        off<K extends keyof ClientEventMap>(type: K, handler: ClientEventHandler<K>): void {
+            getLogger().off(type, handler);
+        },
+
+        /**
+         * Stop automatic page view tracking started by the autoTrack option.
+         */
+        stopAutoTrack(): void {
+            getLogger().stopAutoTrack();
+        },
+
+        /**
+         * Track clicks on elements with data-umami-event attributes.
+         *
+         * @param options - Attribute name and root element to listen on
+         * @returns Function that stops click tracking
+         */
+        trackClicks(options?: ClickTrackingOptions): () => void {
+            return getLogger().trackClicks(options);
+        },
+
+        /**
+         * Track clicks on outbound links and file downloads.
+         *
+         * @param options - Link tracking options
+         * @returns Function that stops link tracking
+         */
+        trackLinks(options?: LinkTrackingOptions): () => void {
+            return getLogger().trackLinks(options);
+        },
+
+        /**
+         * Track uncaught JavaScript errors and unhandled promise rejections.
+         *
+         * @param options - Error tracking options
+         * @returns Function that stops error tracking
+         */
+        trackErrors(options?: ErrorTrackingOptions): () => void {
+            return getLogger().trackErrors(options);
+        },
+
+        /**
+         * Report Core Web Vitals once per page view.
+         *
+         * @param options - Event name and metrics to report
+         * @returns Function that stops reporting
+         */
+        trackWebVitals(options?: WebVitalsOptions): () => void {
+            return getLogger().trackWebVitals(options);
+        },
+
+        /**
+         * Track scroll depth and active time, sent as one summary event per page view.
+         *
+         * @param options - Event name, scroll thresholds and idle timeout
+         * @returns Function that stops engagement tracking
+         */
+        trackEngagement(options?: EngagementOptions): () => void {
+            return getLogger().trackEngagement(options);
+        },
+
+        /**
+         * Create a client scoped to an incoming request, for server-side tracking.
+         * Events are attributed to the visitor's URL, referrer, language, user agent and IP.
+         *
+         * @param request - Node.js/Express request, Fetch API Request or a RequestContext
+         */
+        withRequest(request: RequestLike | RequestContext): UmamiClient<EventMap, SendResult | LegacyResult> {
+            let scoped = getLogger().withRequest(request);
+            return bindClient<EventMap, SendResult | LegacyResult>(
+                () => scoped,
+                () => {
+                    scoped = getLogger().withRequest(request);
+                }
+            );
+        },
+
+        /**
+         * Reset the logger instance (useful for testing).
+         */
+        reset(): void {
+            reset();
+        },
+    };
+
+    // The catalog and result type only narrow the types, the implementation is the same for all of them
+    return client as unknown as UmamiClient<Events, Result>;
+}
+
+/**
+ * Create an independent Umami client, e.g. to report a micro-frontend and
+ * the shell app to different websites. Clients share no state with each
+ * other or with the default `Umami` export.
+ *
+ * Pass an event catalog as type argument to only accept known event names with matching data:
+ * `createUmamiClient<{ signup: { plan: string }; logout: undefined }>()`.
+ *
+ * Tracking calls resolve with a SendResult, or with the response as before when `legacyResults` is set.
+ *
+ * @param config - Optional configuration, can also be set later with initialize()
+ */
+export function createUmamiClient<Events extends EventCatalog<Events> = EventMap>(
+    config: UmamiConfig & { legacyResults: true }
+): UmamiClient<Events, LegacyResult>;
+export function createUmamiClient<Events extends EventCatalog<Events> = EventMap>(
+    config?: UmamiConfig
+): UmamiClient<Events>;
+export function createUmamiClient<Events extends EventCatalog<Events> = EventMap>(
+    config?: UmamiConfig
+): UmamiClient<Events, SendResult | LegacyResult> {
+    let logger = new UmamiLogger();
+    if (config) {
+        logger.initialize(config);
+    }
+
+    return bindClient<Events, SendResult | LegacyResult>(
+        () => logger,
+        () => {
+            logger.clearIdentity();
+            logger.dispose();
+            logger = new UmamiLogger();
+        }
+    );
+}
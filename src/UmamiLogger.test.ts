@@ -1,8 +1,11 @@
 import axios from 'axios';
 import UmamiLogger, { UmamiPayload, UmamiConfig } from './UmamiLogger';
+import { createAxiosTransport } from './Transport';
 
 jest.mock('axios');
 
+const transport = createAxiosTransport(axios);
+
 const mockAxiosPost = axios.post as jest.MockedFunction<typeof axios.post>;
 
 describe('UmamiLogger', () => {
@@ -102,7 +105,7 @@ describe('UmamiLogger', () => {
 
   describe('Track Page View', () => {
     beforeEach(() => {
-      umami.initialize({ baseUrl: 'https://umami.is', websiteId: 'test-website-id' });
+      umami.initialize({ baseUrl: 'https://umami.is', websiteId: 'test-website-id', transport });
     });
 
     it('should send a page view event', async () => {
@@ -144,6 +147,7 @@ describe('UmamiLogger', () => {
       umami.initialize({
         baseUrl: 'https://umami.is',
         websiteId: 'test-id',
+        transport,
         hostName: 'custom-host.com',
       });
       mockAxiosPost.mockResolvedValue({ data: {} });
@@ -163,7 +167,7 @@ describe('UmamiLogger', () => {
 
   describe('Track Custom Events', () => {
     beforeEach(() => {
-      umami.initialize({ baseUrl: 'https://umami.is', websiteId: 'test-website-id' });
+      umami.initialize({ baseUrl: 'https://umami.is', websiteId: 'test-website-id', transport });
     });
 
     it('should send an event with custom data', async () => {
@@ -198,7 +202,7 @@ describe('UmamiLogger', () => {
 
   describe('Generic Track Function', () => {
     beforeEach(() => {
-      umami.initialize({ baseUrl: 'https://umami.is', websiteId: 'test-website-id' });
+      umami.initialize({ baseUrl: 'https://umami.is', websiteId: 'test-website-id', transport });
       mockAxiosPost.mockResolvedValue({ data: {} });
     });
 
@@ -279,7 +283,7 @@ describe('UmamiLogger', () => {
 
   describe('Revenue Tracking', () => {
     beforeEach(() => {
-      umami.initialize({ baseUrl: 'https://umami.is', websiteId: 'test-website-id' });
+      umami.initialize({ baseUrl: 'https://umami.is', websiteId: 'test-website-id', transport });
       mockAxiosPost.mockResolvedValue({ data: {} });
     });
 
@@ -330,7 +334,7 @@ describe('UmamiLogger', () => {
 
   describe('Session Identification', () => {
     beforeEach(() => {
-      umami.initialize({ baseUrl: 'https://umami.is', websiteId: 'test-website-id' });
+      umami.initialize({ baseUrl: 'https://umami.is', websiteId: 'test-website-id', transport });
       mockAxiosPost.mockResolvedValue({ data: {} });
     });
 
@@ -403,6 +407,7 @@ describe('UmamiLogger', () => {
       umami.initialize({
         baseUrl: 'https://umami.is',
         websiteId: 'test-id',
+        transport,
         tag: 'marketing-campaign',
       });
 
@@ -419,7 +424,7 @@ describe('UmamiLogger', () => {
     });
 
     it('should allow setting tag dynamically', async () => {
-      umami.initialize({ baseUrl: 'https://umami.is', websiteId: 'test-id' });
+      umami.initialize({ baseUrl: 'https://umami.is', websiteId: 'test-id', transport });
       umami.setTag('new-tag');
 
       await umami.trackPageView();
@@ -438,6 +443,7 @@ describe('UmamiLogger', () => {
       umami.initialize({
         baseUrl: 'https://umami.is',
         websiteId: 'test-id',
+        transport,
         tag: 'initial-tag',
       });
       umami.clearTag();
@@ -460,6 +466,7 @@ describe('UmamiLogger', () => {
       umami.initialize({
         baseUrl: 'https://umami.is',
         websiteId: 'test-id',
+        transport,
         doNotTrack: true,
       });
 
@@ -479,6 +486,7 @@ describe('UmamiLogger', () => {
       umami.initialize({
         baseUrl: 'https://umami.is',
         websiteId: 'test-id',
+        transport,
         doNotTrack: false,
       });
 
@@ -498,6 +506,7 @@ describe('UmamiLogger', () => {
       umami.initialize({
         baseUrl: 'https://umami.is',
         websiteId: 'test-id',
+        transport,
         doNotTrack: true,
       });
 
@@ -516,6 +525,7 @@ describe('UmamiLogger', () => {
       umami.initialize({
         baseUrl: 'https://umami.is',
         websiteId: 'test-id',
+        transport,
         domains: ['localhost', 'example.com'],
       });
 
@@ -528,6 +538,7 @@ describe('UmamiLogger', () => {
       umami.initialize({
         baseUrl: 'https://umami.is',
         websiteId: 'test-id',
+        transport,
         domains: ['example.com', 'other.com'],
       });
 
@@ -540,6 +551,7 @@ describe('UmamiLogger', () => {
       umami.initialize({
         baseUrl: 'https://umami.is',
         websiteId: 'test-id',
+        transport,
         domains: [],
       });
 
@@ -555,7 +567,7 @@ describe('UmamiLogger', () => {
     });
 
     it('should include search params by default', async () => {
-      umami.initialize({ baseUrl: 'https://umami.is', websiteId: 'test-id' });
+      umami.initialize({ baseUrl: 'https://umami.is', websiteId: 'test-id', transport });
 
       await umami.trackPageView();
 
@@ -573,6 +585,7 @@ describe('UmamiLogger', () => {
       umami.initialize({
         baseUrl: 'https://umami.is',
         websiteId: 'test-id',
+        transport,
         excludeSearch: true,
       });
 
@@ -592,6 +605,7 @@ describe('UmamiLogger', () => {
       umami.initialize({
         baseUrl: 'https://umami.is',
         websiteId: 'test-id',
+        transport,
         excludeHash: true,
       });
 
@@ -611,6 +625,7 @@ describe('UmamiLogger', () => {
       umami.initialize({
         baseUrl: 'https://umami.is',
         websiteId: 'test-id',
+        transport,
         excludeSearch: true,
         excludeHash: true,
       });
@@ -637,6 +652,7 @@ describe('UmamiLogger', () => {
       umami.initialize({
         baseUrl: 'https://umami.is',
         websiteId: 'test-id',
+        transport,
         beforeSend: (payload) => ({
           ...payload,
           url: '/modified-url',
@@ -659,6 +675,7 @@ describe('UmamiLogger', () => {
       umami.initialize({
         baseUrl: 'https://umami.is',
         websiteId: 'test-id',
+        transport,
         beforeSend: () => null,
       });
 
@@ -671,6 +688,7 @@ describe('UmamiLogger', () => {
       umami.initialize({
         baseUrl: 'https://umami.is',
         websiteId: 'test-id',
+        transport,
         beforeSend: () => false,
       });
 
@@ -683,6 +701,7 @@ describe('UmamiLogger', () => {
       umami.initialize({
         baseUrl: 'https://umami.is',
         websiteId: 'test-id',
+        transport,
         beforeSend: () => undefined,
       });
 
@@ -696,6 +715,7 @@ describe('UmamiLogger', () => {
       umami.initialize({
         baseUrl: 'https://umami.is',
         websiteId: 'test-id',
+        transport,
         beforeSend: (payload) => {
           callCount++;
           // Only allow specific event
@@ -716,7 +736,7 @@ describe('UmamiLogger', () => {
 
   describe('Error Handling', () => {
     beforeEach(() => {
-      umami.initialize({ baseUrl: 'https://umami.is', websiteId: 'test-id' });
+      umami.initialize({ baseUrl: 'https://umami.is', websiteId: 'test-id', transport });
     });
 
     it('should handle API errors gracefully', async () => {
@@ -740,7 +760,7 @@ describe('UmamiLogger', () => {
 
   describe('API Response', () => {
     beforeEach(() => {
-      umami.initialize({ baseUrl: 'https://umami.is', websiteId: 'test-id' });
+      umami.initialize({ baseUrl: 'https://umami.is', websiteId: 'test-id', transport });
     });
 
     it('should return response data from trackPageView', async () => {
@@ -751,8 +771,8 @@ describe('UmamiLogger', () => {
       const result = await umami.trackPageView();
 
       expect(result).toEqual({
-        sessionId: 'session-123',
-        visitId: 'visit-456',
+        status: 'sent',
+        response: { sessionId: 'session-123', visitId: 'visit-456' },
       });
     });
 
@@ -763,7 +783,63 @@ describe('UmamiLogger', () => {
 
       const result = await umami.logEvent('test-event', {});
 
-      expect(result).toEqual({ sessionId: 'session-123' });
+      expect(result).toEqual({ status: 'sent', response: { sessionId: 'session-123' } });
+    });
+  });
+
+  describe('Cache Token', () => {
+    beforeEach(() => {
+      sessionStorage.clear();
+      umami.initialize({ baseUrl: 'https://umami.is', websiteId: 'test-id', transport });
+      mockAxiosPost.mockResolvedValue({ data: { cache: 'token-1' } });
+    });
+
+    it('should send the cache token of the last response', async () => {
+      await umami.trackPageView();
+      await umami.logEvent('test-event');
+
+      expect(mockAxiosPost.mock.calls[0]).toHaveLength(2);
+      expect(mockAxiosPost).toHaveBeenLastCalledWith(
+        'https://umami.is/api/send',
+        expect.any(Object),
+        { headers: { 'x-umami-cache': 'token-1' } }
+      );
+    });
+
+    it('should persist the cache token for the browser session', async () => {
+      await umami.trackPageView();
+
+      expect(sessionStorage.getItem('umami.cache.test-id')).toBe('token-1');
+
+      const next = new UmamiLogger();
+      next.initialize({ baseUrl: 'https://umami.is', websiteId: 'test-id', transport });
+      await next.logEvent('test-event');
+
+      expect(mockAxiosPost).toHaveBeenLastCalledWith(
+        'https://umami.is/api/send',
+        expect.any(Object),
+        { headers: { 'x-umami-cache': 'token-1' } }
+      );
+      next.dispose();
+    });
+
+    it('should clear the cache token with the identity', async () => {
+      await umami.trackPageView();
+      umami.clearIdentity();
+
+      expect(sessionStorage.getItem('umami.cache.test-id')).toBeNull();
+
+      mockAxiosPost.mockClear();
+      await umami.logEvent('test-event');
+
+      expect(mockAxiosPost.mock.calls[0]).toHaveLength(2);
+    });
+
+    it('should clear the cache token on reset', async () => {
+      await umami.trackPageView();
+      UmamiLogger.resetInstance();
+
+      expect(sessionStorage.getItem('umami.cache.test-id')).toBeNull();
     });
   });
 });
@@ -1,4 +1,30 @@
-import axios from 'axios';
+import { OfflineQueue, OfflineQueueOptions, QueuedEvent } from './OfflineQueue';
+import { Batcher, BatchEntry, BatchOptions, UmamiBatchResponse } from './Batcher';
+import { Transport, TransportError, createDefaultTransport, createUnloadTransport } from './Transport';
+import { RequestContext, RequestLike, getRequestContext } from './RequestContext';
+import { AutoTracker } from './AutoTracker';
+import { ClickTrackingOptions, startClickTracking } from './ClickTracker';
+import { LinkTrackingOptions, startLinkTracking } from './LinkTracker';
+import { ErrorTrackingOptions, startErrorTracking } from './ErrorTracker';
+import { WebVitalsOptions, WebVitalsTracker } from './WebVitals';
+import { EngagementOptions, EngagementTracker } from './Engagement';
+import { ConsentManager, ConsentState } from './Consent';
+import { ValidationOptions, normalizePayload } from './PayloadValidator';
+import { Sampler, SamplingRule, RateLimitOptions, DedupeOptions, DropReason } from './Sampler';
+import { Plugin, PluginContext, PluginPipeline, createBeforeSendPlugin } from './Plugin';
+import { describePayload, logGroup } from './Debug';
+import {
+    Emitter,
+    ClientEventMap,
+    ClientEventHandler,
+    BlockedEvent,
+    BlockedReason,
+    FailedEvent,
+    FailedReason,
+    FilteredEvent,
+    LoggerLike,
+    FilteredReason,
+} from './Emitter';
 
 // Configuration interface for Umami
 export interface UmamiConfig {
@@ -11,6 +37,32 @@ export interface UmamiConfig {
     excludeSearch?: boolean;
     excludeHash?: boolean;
     beforeSend?: (payload: UmamiPayload) => UmamiPayload | null | undefined | false;
+    offlineQueue?: boolean | OfflineQueueOptions;
+    batch?: boolean | BatchOptions;
+    transport?: Transport;
+    beaconOnUnload?: boolean;
+    server?: boolean;
+    autoTrack?: boolean;
+    clickTracking?: boolean | ClickTrackingOptions;
+    linkTracking?: boolean | LinkTrackingOptions;
+    errorTracking?: boolean | ErrorTrackingOptions;
+    webVitals?: boolean | WebVitalsOptions;
+    engagement?: boolean | EngagementOptions;
+    requireConsent?: boolean;
+    consentStorageKey?: string;
+    validateEvent?: EventValidator;
+    validation?: boolean | ValidationOptions;
+    sampleRate?: number;
+    sampling?: SamplingRule[];
+    rateLimit?: boolean | RateLimitOptions;
+    dedupe?: boolean | DedupeOptions;
+    onDrop?: (payload: UmamiPayload, reason: DropReason) => void;
+    plugins?: Plugin[];
+    onError?: (event: FailedEvent) => void;
+    logger?: LoggerLike | false;
+    legacyResults?: boolean;
+    debug?: boolean;
+    dryRun?: boolean;
 }
 
 // Generic interface for event data
@@ -37,6 +89,8 @@ export interface UmamiPayload {
     data?: EventData;
     tag?: string;
     id?: string;
+    ip?: string;
+    userAgent?: string;
 }
 
 // Identify data interface
@@ -51,6 +105,24 @@ export interface UmamiResponse {
     visitId?: string;
 }
 
+// Why a tracking call didn't send anything
+export type SkipReason = 'notInitialized' | 'queued' | 'consentPending' | BlockedReason | FilteredReason;
+
+// Outcome of a tracking call
+export type SendResult =
+    | { status: 'sent'; response: UmamiResponse; dryRun?: boolean }
+    | { status: 'skipped'; reason: SkipReason }
+    | { status: 'failed'; error: unknown };
+
+// Per-call delivery options
+export interface SendOptions {
+    beacon?: boolean;
+    request?: RequestLike | RequestContext;
+}
+
+// Runtime check for named events, return false to drop the event
+export type EventValidator = (eventName: string, eventData: EventData | undefined) => boolean;
+
 // Type for the payload callback function
 export type PayloadCallback = (props: UmamiPayload) => Partial<UmamiPayload>;
 
@@ -67,8 +139,60 @@ class UmamiLogger {
     // Session data for identify
     private sessionData?: IdentifyData;
 
-    // Private constructor for Singleton pattern
-    private constructor() {}
+    // Queue for failed or offline sends
+    private queue?: OfflineQueue;
+
+    // Visitor context for server-side tracking, set via withRequest
+    private requestContext?: RequestContext;
+
+    // Cache token from the last response, sent back as x-umami-cache
+    private cache?: string;
+
+    // Logger that owns the batch buffer, the parent for loggers created via withRequest
+    private batchOwner: UmamiLogger = this;
+
+    // Whether scoped loggers add to the batch buffer, so batches mix visitors
+    private sharedBatch = false;
+
+    // Transport used when none is configured
+    private defaultTransport?: Transport;
+
+    // Whether the page is currently hidden or being unloaded
+    private pageHidden = false;
+
+    // History API watcher for automatic page views
+    private autoTracker?: AutoTracker;
+
+    // Previous in-app URL, used as referrer after SPA navigations
+    private referrerOverride?: string;
+
+    // Web Vitals and engagement measurement of the current page, told about SPA navigations
+    private webVitals?: WebVitalsTracker;
+    private engagement?: EngagementTracker;
+
+    // Visitor's consent decision and events held back until it is made
+    private consent?: ConsentManager;
+
+    // Sampling, rate limiting and duplicate suppression
+    private sampler?: Sampler;
+
+    // Lifecycle event handlers registered with on()
+    private emitter = new Emitter();
+
+    // Hooks of the beforeSend callback and configured plugins
+    private pipeline?: PluginPipeline;
+
+    // Buffer for batch mode
+    private batcher?: Batcher<SendResult>;
+
+    // Cleanup functions for listeners registered by initialize
+    private listeners: (() => void)[] = [];
+
+    /**
+     * Use getInstance() for the shared instance, or createUmamiClient()
+     * for independent clients.
+     */
+    constructor() {}
 
     /**
      * Get or create the singleton instance.
@@ -84,6 +208,8 @@ class UmamiLogger {
      * Reset the singleton instance (useful for testing).
      */
     static resetInstance(): void {
+        UmamiLogger.instance?.clearIdentity();
+        UmamiLogger.instance?.dispose();
         UmamiLogger.instance = new UmamiLogger();
     }
 
@@ -93,7 +219,239 @@ class UmamiLogger {
      * @param config - Umami configuration object
      */
     initialize(config: UmamiConfig): void {
+        this.dispose();
         this.config = config;
+        this.consent = new ConsentManager(config.consentStorageKey, this.isBrowser());
+        this.cache = this.loadCache();
+
+        this.pipeline = new PluginPipeline(
+            [...(config.beforeSend ? [createBeforeSendPlugin(config.beforeSend)] : []), ...(config.plugins || [])],
+            config
+        );
+
+        this.sampler = config.sampleRate !== undefined || config.sampling || config.rateLimit || config.dedupe
+            ? new Sampler(config)
+            : undefined;
+
+        if (config.offlineQueue) {
+            // Key the storage by website so independent clients don't share a queue
+            this.queue = new OfflineQueue({
+                storageKey: `umami.queue.${config.websiteId}`,
+                ...(config.offlineQueue === true ? {} : config.offlineQueue),
+            });
+
+            if (this.isBrowser()) {
+                this.listen(window, 'online', () => this.flushQueue());
+            }
+
+            // Retry anything left over from a previous page load
+            if (!this.isOffline()) {
+                this.flushQueue();
+            }
+        }
+
+        this.sharedBatch = false;
+        if (config.batch) {
+            this.batcher = new Batcher(
+                (entries) => this.sendBatch(entries),
+                config.batch === true ? {} : config.batch
+            );
+        }
+
+        // Flush pending events before the page goes away
+        if (this.isBrowser()) {
+            this.listen(window, 'pagehide', () => this.handlePageHide());
+            this.listen(window, 'pageshow', () => {
+                this.pageHidden = false;
+            });
+        }
+        if (this.isBrowser() && typeof document !== 'undefined') {
+            this.listen(document, 'visibilitychange', () => {
+                if (document.visibilityState === 'hidden') {
+                    this.handlePageHide();
+                } else {
+                    this.pageHidden = false;
+                }
+            });
+        }
+
+        if (config.autoTrack && this.isBrowser()) {
+            this.autoTracker = new AutoTracker(
+                (referrer) => {
+                    if (referrer !== undefined) {
+                        this.referrerOverride = referrer;
+                        this.webVitals?.navigate();
+                        this.engagement?.navigate();
+                    }
+                    this.sendInBackground(this.trackPageView());
+                },
+                { excludeSearch: config.excludeSearch, excludeHash: config.excludeHash }
+            );
+            this.autoTracker.start();
+        }
+
+        if (config.clickTracking) {
+            this.trackClicks(config.clickTracking === true ? {} : config.clickTracking);
+        }
+
+        if (config.linkTracking) {
+            this.trackLinks(config.linkTracking === true ? {} : config.linkTracking);
+        }
+
+        if (config.errorTracking) {
+            this.trackErrors(config.errorTracking === true ? {} : config.errorTracking);
+        }
+
+        if (config.webVitals) {
+            this.trackWebVitals(config.webVitals === true ? {} : config.webVitals);
+        }
+
+        if (config.engagement) {
+            this.trackEngagement(config.engagement === true ? {} : config.engagement);
+        }
+    }
+
+    /**
+     * Track clicks on elements with data-umami-event attributes, like the official tracker.
+     * `data-umami-event-*` attributes become event data.
+     *
+     * @param options - Attribute name and root element to listen on
+     * @returns Function that stops click tracking
+     */
+    trackClicks(options: ClickTrackingOptions = {}): () => void {
+        if (!this.isBrowser() || typeof document === 'undefined') return () => undefined;
+
+        return this.addCleanup(startClickTracking(
+            (eventName, eventData, sendOptions) =>
+                this.sendInBackground(this.logEvent(eventName, eventData, sendOptions)),
+            options
+        ));
+    }
+
+    /**
+     * Track clicks on links to other hosts and on file downloads.
+     * Hosts in `domains` and `hostName` count as internal.
+     *
+     * @param options - Link tracking options
+     * @returns Function that stops link tracking
+     */
+    trackLinks(options: LinkTrackingOptions = {}): () => void {
+        if (!this.isBrowser() || typeof document === 'undefined') return () => undefined;
+
+        return this.addCleanup(startLinkTracking(
+            (eventName, eventData, sendOptions) =>
+                this.sendInBackground(this.logEvent(eventName, eventData, sendOptions)),
+            () => this.getInternalHosts(),
+            options
+        ));
+    }
+
+    /**
+     * Track uncaught JavaScript errors and unhandled promise rejections as events.
+     * Each distinct error is sent once per session, up to a per-session cap.
+     *
+     * @param options - Event name, cap and messages to ignore
+     * @returns Function that stops error tracking
+     */
+    trackErrors(options: ErrorTrackingOptions = {}): () => void {
+        if (!this.isBrowser() || typeof window === 'undefined') return () => undefined;
+
+        return this.addCleanup(startErrorTracking(
+            (eventName, eventData) => this.sendInBackground(this.logEvent(eventName, eventData)),
+            options
+        ));
+    }
+
+    /**
+     * Report Core Web Vitals (LCP, CLS, INP, FCP and TTFB) once per page view, when the page is
+     * hidden. With autoTrack, CLS and INP are reported again for each route of a single page app.
+     *
+     * @param options - Event name and metrics to report
+     * @returns Function that stops reporting
+     */
+    trackWebVitals(options: WebVitalsOptions = {}): () => void {
+        if (!this.isBrowser() || typeof document === 'undefined') return () => undefined;
+
+        this.webVitals?.stop();
+        const tracker = new WebVitalsTracker(
+            (eventName, { name, value, rating, navigationType }, url, pageHidden) =>
+                this.sendInBackground(
+                    this.sendPageEvent(eventName, { metric: name, value, rating, navigationType }, { url }, pageHidden)
+                ),
+            () => this.buildUrl(),
+            options
+        );
+        this.webVitals = tracker;
+        tracker.start();
+
+        return this.addCleanup(() => {
+            tracker.stop();
+            if (this.webVitals === tracker) {
+                this.webVitals = undefined;
+            }
+        });
+    }
+
+    /**
+     * Track scroll depth and active time, sent as one summary event per page view when the page
+     * is hidden. With autoTrack, a summary is also sent for each route of a single page app.
+     *
+     * @param options - Event name, scroll thresholds and idle timeout
+     * @returns Function that stops engagement tracking
+     */
+    trackEngagement(options: EngagementOptions = {}): () => void {
+        if (!this.isBrowser() || typeof document === 'undefined') return () => undefined;
+
+        this.engagement?.stop();
+        const tracker = new EngagementTracker(
+            (eventName, eventData, page, pageHidden) =>
+                this.sendInBackground(this.sendPageEvent(eventName, eventData, page, pageHidden)),
+            () => {
+                const { url, title } = this.buildBasePayload();
+                return { url, title };
+            },
+            options
+        );
+        this.engagement = tracker;
+        tracker.start();
+
+        return this.addCleanup(() => {
+            tracker.stop();
+            if (this.engagement === tracker) {
+                this.engagement = undefined;
+            }
+        });
+    }
+
+    /**
+     * Stop automatic page view tracking and restore the History API.
+     */
+    stopAutoTrack(): void {
+        this.autoTracker?.stop();
+        this.autoTracker = undefined;
+    }
+
+    /**
+     * Get the offline queue, if enabled.
+     */
+    getQueue(): OfflineQueue | undefined {
+        return this.queue;
+    }
+
+    /**
+     * Send all queued events now.
+     */
+    flushQueue(): Promise<void> {
+        if (!this.queue) return Promise.resolve();
+        return this.queue.flush((event) => this.resend(event));
+    }
+
+    /**
+     * Send all buffered batch entries now.
+     */
+    flushBatch(): Promise<void> {
+        if (!this.batcher) return Promise.resolve();
+        return this.batcher.flush();
     }
 
     /**
@@ -103,34 +461,144 @@ class UmamiLogger {
         return this.config;
     }
 
+    /**
+     * Set the visitor's consent decision. It is persisted across reloads.
+     * Events held back while consent was pending are sent on 'granted' and dropped on 'denied',
+     * as are events waiting in the offline queue and the batch buffer.
+     *
+     * @param state - 'granted', 'denied' or 'pending'
+     */
+    setConsent(state: ConsentState): void {
+        const released = this.getConsentManager().setState(state);
+        released.forEach((event) => this.sendInBackground(this.deliver(event.data, event.options)));
+
+        // Scoped loggers share the queue and buffer with other visitors, their events stay
+        if (state === 'denied' && !this.requestContext) {
+            this.batcher?.discard({ status: 'skipped', reason: 'consent' });
+            this.queue?.clear();
+        }
+    }
+
+    /**
+     * Get the visitor's consent decision.
+     */
+    getConsent(): ConsentState {
+        return this.getConsentManager().getState();
+    }
+
+    /**
+     * Opt the visitor out of tracking. Stays in effect across reloads until consent is granted again.
+     */
+    optOut(): void {
+        this.setConsent('denied');
+    }
+
+    /**
+     * Listen for lifecycle events: 'sent', 'failed', 'blocked' (DNT, domain, consent)
+     * and 'filtered' (beforeSend, validation, sampling).
+     *
+     * @param type - Event name
+     * @param handler - Called with the event object
+     * @returns Function that removes the handler
+     */
+    on<K extends keyof ClientEventMap>(type: K, handler: ClientEventHandler<K>): () => void {
+        return this.emitter.on(type, handler);
+    }
+
+    /**
+     * Remove a lifecycle event handler.
+     *
+     * @param type - Event name
+     * @param handler - Handler passed to on()
+     */
+    off<K extends keyof ClientEventMap>(type: K, handler: ClientEventHandler<K>): void {
+        this.emitter.off(type, handler);
+    }
+
+    /**
+     * Create a logger scoped to an incoming request, for server-side tracking.
+     * The scoped logger shares configuration, transport, queue and batch buffer,
+     * but keeps its own identity and consent so visitors don't leak into each other.
+     * Consent starts out as the parent's decision and is kept in memory.
+     *
+     * @param request - Node.js/Express request, Fetch API Request or a RequestContext
+     */
+    withRequest(request: RequestLike | RequestContext): UmamiLogger {
+        const scoped = new UmamiLogger();
+        scoped.config = this.config;
+        scoped.queue = this.queue;
+        scoped.batcher = this.batcher;
+        scoped.batchOwner = this.batchOwner;
+        this.batchOwner.sharedBatch = true;
+        scoped.consent = new ConsentManager(undefined, false);
+        scoped.consent.setState(this.getConsent());
+        scoped.sampler = this.sampler;
+        scoped.pipeline = this.pipeline;
+        scoped.emitter = this.emitter;
+        scoped.defaultTransport = this.getTransport();
+        scoped.sessionId = this.sessionId;
+        scoped.sessionData = this.sessionData;
+        scoped.requestContext = { ...this.requestContext, ...getRequestContext(request) };
+        return scoped;
+    }
+
+    /**
+     * Get the visitor context set via withRequest.
+     */
+    getRequestContext(): RequestContext | undefined {
+        return this.requestContext;
+    }
+
+    /**
+     * Get the consent manager, creating one if consent is set before initialize.
+     */
+    private getConsentManager(): ConsentManager {
+        if (!this.consent) {
+            this.consent = new ConsentManager(this.config?.consentStorageKey, this.isBrowser());
+        }
+        return this.consent;
+    }
+
+    /**
+     * Check if browser globals should be used. False in server mode.
+     */
+    private isBrowser(): boolean {
+        return !this.config?.server && typeof window !== 'undefined';
+    }
+
     /**
      * Check if tracking should be blocked.
-     * Returns true if tracking should NOT occur.
+     * Returns the reason if tracking should NOT occur.
      */
-    private isTrackingBlocked(): boolean {
-        if (!this.config) return true;
+    private getBlockReason(): BlockedReason | undefined {
+        // Check consent, an explicit denial or opt-out always wins
+        if (this.consent?.getState() === 'denied') {
+            return 'consent';
+        }
 
         // Check Do Not Track browser preference
         if (this.config.doNotTrack && this.isDoNotTrackEnabled()) {
-            return true;
+            return 'doNotTrack';
         }
 
         // Check domain restrictions
         if (this.config.domains && this.config.domains.length > 0) {
-            const currentDomain = typeof window !== 'undefined' ? window.location.hostname : '';
+            const currentDomain = this.requestContext?.hostname
+                || (this.isBrowser() ? window.location.hostname : '');
             if (!this.config.domains.includes(currentDomain)) {
-                return true;
+                return 'domain';
             }
         }
 
-        return false;
+        return undefined;
     }
 
     /**
      * Check if browser's Do Not Track is enabled.
      */
     private isDoNotTrackEnabled(): boolean {
-        if (typeof navigator === 'undefined') return false;
+        if (this.requestContext) return !!this.requestContext.doNotTrack;
+        if (!this.isBrowser() || typeof navigator === 'undefined') return false;
         const dnt = (navigator as any).doNotTrack || (window as any).doNotTrack || (navigator as any).msDoNotTrack;
         return dnt === '1' || dnt === 'yes' || dnt === true;
     }
@@ -139,18 +607,29 @@ class UmamiLogger {
      * Build the URL based on configuration options.
      */
     private buildUrl(overrideUrl?: string): string {
-        if (typeof window === 'undefined') return overrideUrl || '';
+        let pathname: string;
+        let search: string;
+        let hash: string;
+
+        if (this.requestContext?.url !== undefined) {
+            const match = /^([^?#]*)(\?[^#]*)?(#.*)?$/.exec(this.requestContext.url) || [];
+            [pathname, search, hash] = [match[1] || '', match[2] || '', match[3] || ''];
+        } else if (this.isBrowser()) {
+            ({ pathname, search, hash } = window.location);
+        } else {
+            return overrideUrl || '';
+        }
 
-        let url = overrideUrl || window.location.pathname;
+        let url = overrideUrl || pathname;
 
         // Add search params unless excluded
-        if (!this.config?.excludeSearch && window.location.search) {
-            url += window.location.search;
+        if (!this.config?.excludeSearch && search) {
+            url += search;
         }
 
         // Add hash unless excluded
-        if (!this.config?.excludeHash && window.location.hash) {
-            url += window.location.hash;
+        if (!this.config?.excludeHash && hash) {
+            url += hash;
         }
 
         return url;
@@ -160,16 +639,28 @@ class UmamiLogger {
      * Build base payload with common properties.
      */
     private buildBasePayload(overrideUrl?: string): UmamiPayload {
+        const context = this.requestContext || {};
+        const browser = this.isBrowser();
+
         const payload: UmamiPayload = {
-            hostname: this.config?.hostName || (typeof window !== 'undefined' ? window.location.hostname : ''),
-            language: typeof navigator !== 'undefined' ? navigator.language : '',
-            referrer: typeof document !== 'undefined' ? (document.referrer || '') : '',
-            screen: typeof window !== 'undefined' ? `${window.screen.width}x${window.screen.height}` : '',
-            title: typeof document !== 'undefined' ? document.title : '',
+            hostname: this.config?.hostName || context.hostname || (browser ? window.location.hostname : ''),
+            language: context.language ?? (browser && typeof navigator !== 'undefined' ? navigator.language : ''),
+            referrer: context.referrer ?? this.referrerOverride
+                ?? (browser && typeof document !== 'undefined' ? (document.referrer || '') : ''),
+            screen: context.screen ?? (browser ? `${window.screen.width}x${window.screen.height}` : ''),
+            title: context.title ?? (browser && typeof document !== 'undefined' ? document.title : ''),
             url: this.buildUrl(overrideUrl),
             website: this.config?.websiteId || '',
         };
 
+        // Forward the visitor's user agent and IP, Umami uses them for sessions and bot filtering
+        if (context.userAgent) {
+            payload.userAgent = context.userAgent;
+        }
+        if (context.ip) {
+            payload.ip = context.ip;
+        }
+
         // Add tag if configured
         if (this.config?.tag) {
             payload.tag = this.config.tag;
@@ -188,8 +679,8 @@ class UmamiLogger {
      *
      * @param overrideUrl - Optional URL to override the default
      */
-    async trackPageView(overrideUrl?: string): Promise<UmamiResponse | void> {
-        if (this.isTrackingBlocked()) return;
+    async trackPageView(overrideUrl?: string): Promise<SendResult> {
+        if (!this.config) return { status: 'skipped', reason: 'notInitialized' };
 
         const payload = this.buildBasePayload(overrideUrl);
 
@@ -214,8 +705,8 @@ class UmamiLogger {
     async track(
         eventNameOrPayloadOrCallback?: string | Partial<UmamiPayload> | PayloadCallback,
         eventData?: EventData
-    ): Promise<UmamiResponse | void> {
-        if (this.isTrackingBlocked()) return;
+    ): Promise<SendResult> {
+        if (!this.config) return { status: 'skipped', reason: 'notInitialized' };
 
         let payload: UmamiPayload;
 
@@ -252,16 +743,21 @@ class UmamiLogger {
      *
      * @param eventName - Name of the event
      * @param eventData - Optional data to attach to the event
+     * @param options - Optional delivery options, e.g. { beacon: true } for events sent right before navigation
      */
-    async logEvent(eventName: string, eventData: EventData = {}): Promise<UmamiResponse | void> {
-        if (!this.config || !eventName) return;
-        if (this.isTrackingBlocked()) return;
+    async logEvent(eventName: string, eventData: EventData = {}, options?: SendOptions): Promise<SendResult> {
+        if (options?.request) {
+            return this.withRequest(options.request).logEvent(eventName, eventData, { ...options, request: undefined });
+        }
+
+        if (!this.config) return { status: 'skipped', reason: 'notInitialized' };
+        if (!eventName) return { status: 'skipped', reason: 'invalid' };
 
         const payload = this.buildBasePayload();
         payload.name = eventName;
         payload.data = eventData;
 
-        return this.sendData({ payload, type: 'event' });
+        return this.sendData({ payload, type: 'event' }, options);
     }
 
     /**
@@ -277,9 +773,9 @@ class UmamiLogger {
         revenue: number,
         currency: string,
         additionalData?: EventData
-    ): Promise<UmamiResponse | void> {
-        if (!this.config || !eventName) return;
-        if (this.isTrackingBlocked()) return;
+    ): Promise<SendResult> {
+        if (!this.config) return { status: 'skipped', reason: 'notInitialized' };
+        if (!eventName) return { status: 'skipped', reason: 'invalid' };
 
         const payload = this.buildBasePayload();
         payload.name = eventName;
@@ -306,18 +802,19 @@ class UmamiLogger {
     async identify(
         uniqueIdOrData?: string | IdentifyData,
         data?: IdentifyData
-    ): Promise<UmamiResponse | void> {
-        if (!this.config) return;
-        if (this.isTrackingBlocked()) return;
-
-        // Handle different argument patterns
-        if (typeof uniqueIdOrData === 'string') {
-            this.sessionId = uniqueIdOrData;
-            if (data) {
-                this.sessionData = data;
+    ): Promise<SendResult> {
+        if (!this.config) return { status: 'skipped', reason: 'notInitialized' };
+
+        // Handle different argument patterns, the identity stays unchanged while tracking is blocked
+        if (!this.getBlockReason()) {
+            if (typeof uniqueIdOrData === 'string') {
+                this.sessionId = uniqueIdOrData;
+                if (data) {
+                    this.sessionData = data;
+                }
+            } else if (typeof uniqueIdOrData === 'object') {
+                this.sessionData = uniqueIdOrData;
             }
-        } else if (typeof uniqueIdOrData === 'object') {
-            this.sessionData = uniqueIdOrData;
         }
 
         // Build and send identify payload
@@ -351,6 +848,7 @@ class UmamiLogger {
     clearIdentity(): void {
         this.sessionId = undefined;
         this.sessionData = undefined;
+        this.storeCache(undefined);
     }
 
     /**
@@ -373,36 +871,530 @@ class UmamiLogger {
         }
     }
 
+    /**
+     * Check if the browser reports being offline.
+     */
+    private isOffline(): boolean {
+        return typeof navigator !== 'undefined' && navigator.onLine === false;
+    }
+
+    /**
+     * Send an event of a page that may no longer be the current one, e.g. a summary sent after an SPA navigation.
+     */
+    private sendPageEvent(
+        eventName: string,
+        eventData: EventData,
+        page: Partial<Pick<UmamiPayload, 'url' | 'title'>>,
+        pageHidden: boolean
+    ): Promise<SendResult> {
+        const payload = { ...this.buildBasePayload(), ...page };
+        payload.name = eventName;
+        payload.data = eventData;
+
+        return this.sendData({ payload, type: 'event' }, pageHidden ? { beacon: true } : undefined);
+    }
+
+    /**
+     * Send an event nobody awaits, e.g. from a listener. Errors such as a strict validation
+     * failure are logged instead of becoming unhandled rejections.
+     */
+    private sendInBackground(result: Promise<SendResult>): void {
+        result.catch((error) => this.log('error', 'Error tracking event:', error));
+    }
+
+    /**
+     * Switch to unload-safe delivery and send whatever is buffered.
+     */
+    private handlePageHide(): void {
+        this.pageHidden = true;
+        this.flushBatch();
+    }
+
+    /**
+     * Check if a request should be delivered with sendBeacon / keepalive.
+     */
+    private useBeacon(options?: SendOptions): boolean {
+        if (options?.beacon) return true;
+        return this.pageHidden && this.config?.beaconOnUnload !== false;
+    }
+
+    /**
+     * Hostnames that count as the current site.
+     */
+    private getInternalHosts(): string[] {
+        const hosts = [...(this.config?.domains || [])];
+        if (this.config?.hostName) {
+            hosts.push(this.config.hostName);
+        }
+        if (this.isBrowser()) {
+            hosts.push(window.location.hostname);
+        }
+        return hosts;
+    }
+
+    /**
+     * Keep a listener's cleanup function until dispose, and return one that also forgets it.
+     */
+    private addCleanup(stop: () => void): () => void {
+        this.listeners.push(stop);
+        return () => {
+            stop();
+            this.listeners = this.listeners.filter((remove) => remove !== stop);
+        };
+    }
+
+    /**
+     * Add an event listener that is removed again on dispose.
+     */
+    private listen(target: EventTarget, type: string, listener: () => void): void {
+        target.addEventListener(type, listener);
+        this.listeners.push(() => target.removeEventListener(type, listener));
+    }
+
+    /**
+     * Remove listeners and timers registered by initialize.
+     * Events still buffered in batch mode are sent first.
+     */
+    dispose(): void {
+        this.listeners.forEach((remove) => remove());
+        this.listeners = [];
+        this.stopAutoTrack();
+        this.queue?.dispose();
+        this.queue = undefined;
+        this.batcher?.dispose();
+        this.batcher = undefined;
+    }
+
+    /**
+     * Get the configured transport, or the best one for this environment.
+     */
+    private getTransport(): Transport {
+        if (this.config?.transport) {
+            return this.config.transport;
+        }
+        if (!this.defaultTransport) {
+            this.defaultTransport = createDefaultTransport();
+        }
+        return this.defaultTransport;
+    }
+
+    /**
+     * Get the transport for a request, wrapped for unload-safe delivery if needed.
+     */
+    private getTransportFor(beacon: boolean): Transport {
+        return beacon ? createUnloadTransport(this.getTransport()) : this.getTransport();
+    }
+
+    /**
+     * Post data to the Umami API. Throws on failure.
+     */
+    private async postData(data: { payload: UmamiPayload; type: string }, beacon = false): Promise<UmamiResponse> {
+        const apiUrl = `${this.config!.baseUrl}/api/send`;
+        const response = await this.getTransportFor(beacon).send({
+            url: apiUrl,
+            body: {
+                payload: data.payload,
+                type: data.type,
+            },
+            headers: this.buildHeaders(data.payload),
+        });
+        this.updateCache(response.data);
+        return response.data;
+    }
+
+    /**
+     * Build request headers that forward the visitor's context and the cache token.
+     */
+    private buildHeaders(payload?: UmamiPayload): Record<string, string> | undefined {
+        if (!payload?.userAgent && !payload?.ip && !this.cache) return undefined;
+
+        const headers: Record<string, string> = {};
+        if (this.cache) {
+            headers['x-umami-cache'] = this.cache;
+        }
+        if (payload?.userAgent) {
+            headers['User-Agent'] = payload.userAgent;
+        }
+        if (payload?.ip) {
+            headers['X-Forwarded-For'] = payload.ip;
+        }
+        return headers;
+    }
+
+    /**
+     * Keep the cache token of a response for later requests.
+     */
+    private updateCache(response?: { cache?: string }): void {
+        if (response && typeof response.cache === 'string' && response.cache !== this.cache) {
+            this.storeCache(response.cache);
+        }
+    }
+
+    /**
+     * Set the cache token and persist it for the browser session.
+     */
+    private storeCache(cache: string | undefined): void {
+        this.cache = cache;
+        if (!this.isBrowser() || !this.config) return;
+
+        try {
+            const key = `umami.cache.${this.config.websiteId}`;
+            if (cache) {
+                window.sessionStorage.setItem(key, cache);
+            } else {
+                window.sessionStorage.removeItem(key);
+            }
+        } catch {
+            // Storage unavailable, keep the token in memory only
+        }
+    }
+
+    /**
+     * Read the cache token persisted for this browser session.
+     */
+    private loadCache(): string | undefined {
+        if (!this.isBrowser()) return undefined;
+
+        try {
+            return window.sessionStorage.getItem(`umami.cache.${this.config!.websiteId}`) || undefined;
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * Resend a queued event. beforeSend has already been applied when it was queued.
+     */
+    private async resend(event: QueuedEvent): Promise<boolean | 'rejected'> {
+        if (!this.config?.baseUrl) return false;
+
+        // Queued before the visitor opted out, or while a request was in flight
+        if (this.getBlockReason()) return 'rejected';
+
+        try {
+            await this.postData(event);
+            return true;
+        } catch (error) {
+            if (this.isRetryable(error)) return false;
+
+            this.reportFailure(error, event.payload, { type: event.type });
+            return 'rejected';
+        }
+    }
+
+    /**
+     * Status code of a failed request, undefined when no response arrived.
+     */
+    private getErrorStatus(error: unknown): number | undefined {
+        if (error instanceof TransportError) return error.status;
+        return (error as { response?: { status?: number } } | undefined)?.response?.status;
+    }
+
+    /**
+     * Check if a failed request may succeed later: network errors and server errors, not 4xx rejections.
+     */
+    private isRetryable(error: unknown): boolean {
+        const status = this.getErrorStatus(error);
+        return status === undefined || status >= 500;
+    }
+
+    /**
+     * Send buffered entries to the batch endpoint. Each entry gets its own result:
+     * entries reported in the response details, or all of them on a network error, fail.
+     * Batches holding entries of scoped loggers carry no cache token, as it belongs to a single visitor.
+     */
+    private async sendBatch(entries: BatchEntry[]): Promise<SendResult[]> {
+        if (!this.config?.baseUrl) return entries.map(() => ({ status: 'skipped', reason: 'notInitialized' }));
+
+        const apiUrl = `${this.config.baseUrl}/api/batch`;
+        const queue = this.queue;
+
+        try {
+            const response = await this.getTransportFor(this.useBeacon()).send({
+                url: apiUrl,
+                body: entries,
+                headers: this.sharedBatch ? undefined : this.buildHeaders(),
+            });
+            const batchResponse: UmamiBatchResponse = response.data || {};
+            if (!this.sharedBatch) {
+                this.updateCache(batchResponse);
+            }
+
+            if (queue) {
+                this.flushQueue();
+            }
+
+            const details = new Map((batchResponse.details || []).map((detail) => [detail.index, detail.response]));
+            return entries.map((entry, index): SendResult => {
+                if (!details.has(index)) {
+                    return { status: 'sent', response: {} };
+                }
+                const error = new TransportError(`Batch entry ${index} was rejected`, response.status, {
+                    status: response.status,
+                    data: details.get(index),
+                });
+                return this.reportFailure(error, entry.payload, { type: entry.type }, 'rejected');
+            });
+        } catch (error) {
+            const retry = !!queue && this.isRetryable(error);
+            const results: SendResult[] = [];
+            for (const entry of entries) {
+                if (retry && (await this.enqueueForRetry(entry))) {
+                    results.push({ status: 'skipped', reason: 'queued' });
+                } else {
+                    results.push(this.reportFailure(error, entry.payload, { type: entry.type }));
+                }
+            }
+            return results;
+        }
+    }
+
+    /**
+     * Store an event that failed to send in the offline queue for a later retry.
+     * Returns false when it could not be stored, so the caller reports the failure instead.
+     */
+    private async enqueueForRetry(event: { payload: UmamiPayload; type: string }): Promise<boolean> {
+        try {
+            await this.queue!.enqueue(event);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Write to the configured logger, console by default, nothing when it is false.
+     */
+    private log(level: 'warn' | 'error', ...args: unknown[]): void {
+        const logger = this.config?.logger === undefined ? console : this.config.logger;
+        if (logger) {
+            logger[level](...args);
+        }
+    }
+
+    /**
+     * Log a readable summary of what happened to an event when the debug option is on.
+     *
+     * @param decision - What happened, e.g. 'sent' or 'blocked (doNotTrack)'
+     * @param payload - Payload of the event
+     * @param context - Event details
+     * @param details - Further labelled values, e.g. the destination or response
+     */
+    private debug(
+        decision: string,
+        payload: UmamiPayload,
+        context: PluginContext,
+        details: { [label: string]: unknown } = {}
+    ): void {
+        if (!this.config?.debug) return;
+
+        const logger = this.config.logger === undefined ? console : this.config.logger;
+        if (!logger) return;
+
+        logGroup(logger, `[Umami] ${describePayload(payload)}: ${decision}`, {
+            Type: context.type,
+            Payload: payload,
+            ...details,
+        });
+    }
+
+    /**
+     * Report an event that was not sent to the listeners and plugins.
+     */
+    private reportDropped(event: BlockedEvent | FilteredEvent, context: PluginContext): SendResult {
+        this.debug(`${event.type} (${event.reason})`, event.payload, context);
+        this.emitter.emit(event);
+        this.pipeline?.onBlocked(event.payload, event.reason, context);
+        return { status: 'skipped', reason: event.reason };
+    }
+
+    /**
+     * Report a delivered event to the listeners and plugins.
+     */
+    private reportSent(
+        payload: UmamiPayload,
+        response: UmamiResponse,
+        context: PluginContext,
+        destination: string
+    ): SendResult {
+        this.debug('sent', payload, context, { Destination: destination, Response: response });
+        this.emitter.emit({ type: 'sent', payload, response });
+        this.pipeline!.afterSend(payload, response, context);
+        return { status: 'sent', response };
+    }
+
+    /**
+     * Report a failed delivery to the logger, onError, the listeners and plugins.
+     *
+     * @param error - Error thrown by the transport
+     * @param payload - Payload that was not delivered
+     * @param context - Event details
+     * @param reason - 'rejected' for entries the batch endpoint refused, derived from the error otherwise
+     */
+    private reportFailure(
+        error: unknown,
+        payload: UmamiPayload,
+        context: PluginContext,
+        reason?: FailedReason
+    ): SendResult {
+        const httpError = error as { response?: { status: number; data: unknown } } | undefined;
+        const response = error instanceof TransportError ? error.response : httpError?.response;
+        const status = this.getErrorStatus(error);
+
+        const event: FailedEvent = {
+            type: 'failed',
+            payload,
+            reason: reason || (status ? 'http' : 'network'),
+            error,
+            status,
+            response,
+        };
+
+        this.log('error', 'Error sending data:', error);
+        this.debug(`failed (${event.reason})`, payload, context, { Status: status, Error: error });
+        try {
+            this.config?.onError?.(event);
+        } catch {
+            // Observers must never break tracking
+        }
+        this.emitter.emit(event);
+        this.pipeline?.onError(error, payload, context);
+        return { status: 'failed', error };
+    }
+
     /**
      * Send data to Umami.
      *
      * @param data - Data to send (payload and type)
+     * @param options - Optional delivery options
      */
-    private async sendData(data: { payload: UmamiPayload; type: string }): Promise<UmamiResponse | void> {
-        if (!this.config?.baseUrl) return;
+    private async sendData(
+        data: { payload: UmamiPayload; type: string },
+        options?: SendOptions
+    ): Promise<SendResult> {
+        if (!this.config?.baseUrl) return { status: 'skipped', reason: 'notInitialized' };
+
+        const context: PluginContext = { type: data.type, options };
+
+        // Tracking is off because of consent, Do Not Track or domain restrictions
+        const blockedReason = this.getBlockReason();
+        if (blockedReason) {
+            return this.reportDropped({ type: 'blocked', payload: data.payload, reason: blockedReason }, context);
+        }
 
-        let payload = data.payload;
+        // Drop named events the catalog doesn't know, for callers without type checking
+        if (this.config.validateEvent && data.payload.name && !this.config.validateEvent(data.payload.name, data.payload.data)) {
+            this.log('warn', `Umami: dropped invalid event "${data.payload.name}"`);
+            return this.reportDropped({ type: 'filtered', payload: data.payload, reason: 'invalid' }, context);
+        }
 
-        // Apply beforeSend callback if configured
-        if (this.config.beforeSend) {
-            const result = this.config.beforeSend(payload);
-            // If callback returns falsy value, cancel the request
-            if (!result) {
-                return;
+        // Drop sampled out, rate limited and duplicate events
+        const dropReason = this.sampler?.check(data.payload, data.type);
+        if (dropReason) {
+            try {
+                this.config.onDrop?.(data.payload, dropReason);
+            } catch {
+                // Observers must never break tracking
             }
-            payload = result;
+            return this.reportDropped({ type: 'filtered', payload: data.payload, reason: dropReason }, context);
         }
 
-        const apiUrl = `${this.config.baseUrl}/api/send`;
+        // Hold events back until the visitor decides
+        if (this.config.requireConsent && this.getConsent() === 'pending') {
+            this.getConsentManager().hold({ data, options });
+            this.debug('held until consent is given', data.payload, context);
+            return { status: 'skipped', reason: 'consentPending' };
+        }
 
-        try {
-            const response = await axios.post<UmamiResponse>(apiUrl, {
-                payload,
-                type: data.type,
+        return this.deliver(data, options);
+    }
+
+    /**
+     * Send data that passed the checks of sendData, running the plugin hooks.
+     *
+     * @param data - Data to send (payload and type)
+     * @param options - Optional delivery options
+     */
+    private async deliver(
+        data: { payload: UmamiPayload; type: string },
+        options?: SendOptions
+    ): Promise<SendResult> {
+        if (!this.config?.baseUrl) return { status: 'skipped', reason: 'notInitialized' };
+
+        const context: PluginContext = { type: data.type, options };
+
+        // Run beforeSend and the plugins, any of them can cancel the event
+        const result = this.pipeline!.beforeSend(data.payload, context);
+        let payload = result instanceof Promise ? await result : result;
+        if (!payload) {
+            this.debug('filtered (beforeSend)', data.payload, context);
+            this.emitter.emit({ type: 'filtered', payload: data.payload, reason: 'beforeSend' });
+            return { status: 'skipped', reason: 'beforeSend' };
+        }
+
+        // Keep the payload within Umami's limits, throws in strict mode
+        if (this.config.validation) {
+            const validation = this.config.validation === true ? {} : this.config.validation;
+            const normalized = normalizePayload(payload, {
+                onWarning: ({ field, message }) => this.log('warn', `Umami: ${field} ${message}`),
+                ...validation,
             });
-            return response.data;
+            if (!normalized) {
+                return this.reportDropped({ type: 'filtered', payload, reason: 'invalid' }, context);
+            }
+            payload = normalized;
+        }
+
+        const beacon = this.useBeacon(options);
+        const batched = !!this.batcher && !beacon;
+        const destination = `${this.config.baseUrl}/api/${batched ? 'batch' : 'send'}${beacon ? ' (beacon)' : ''}`;
+
+        // Everything but the request itself has run
+        if (this.config.dryRun) {
+            this.debug('dry run, not sent', payload, context, { Destination: destination });
+            this.emitter.emit({ type: 'sent', payload, response: {} });
+            this.pipeline!.afterSend(payload, {}, context);
+            return { status: 'sent', response: {}, dryRun: true };
+        }
+
+        // Queue right away when the browser knows it is offline
+        if (this.queue && this.isOffline()) {
+            await this.queue.enqueue({ payload, type: data.type });
+            this.debug('queued (offline)', payload, context, { Destination: destination });
+            return { status: 'skipped', reason: 'queued' };
+        }
+
+        // Beacon requests skip the buffer so they leave before the page does
+        if (batched) {
+            let result: SendResult;
+            try {
+                result = await this.batcher.add({ payload, type: data.type });
+            } catch (error) {
+                return this.reportFailure(error, payload, context);
+            }
+            // Failed entries are reported by sendBatch
+            if (result.status === 'sent') {
+                this.reportSent(payload, result.response, context, destination);
+            }
+            return result;
+        }
+
+        try {
+            const response = await this.postData({ payload, type: data.type }, beacon);
+
+            // Connection works again, deliver anything that was queued
+            if (this.queue) {
+                this.flushQueue();
+            }
+
+            return this.reportSent(payload, response, context, destination);
         } catch (error) {
-            console.error('Error sending data:', error);
+            // Events the server rejected would fail again and block the queue
+            if (this.queue && this.isRetryable(error) && (await this.enqueueForRetry({ payload, type: data.type }))) {
+                this.debug('queued (send failed)', payload, context, { Destination: destination });
+                return { status: 'skipped', reason: 'queued' };
+            }
+            return this.reportFailure(error, payload, context);
         }
     }
 }
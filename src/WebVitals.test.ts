@@ -0,0 +1,207 @@
+import { createUmamiClient, UmamiClient } from './UmamiClient';
+import { WebVitalsTracker, rateMetric } from './WebVitals';
+import { createRecordingTransport } from './testing';
+
+class FakeObserver {
+  static supportedEntryTypes = ['largest-contentful-paint', 'paint', 'layout-shift', 'event', 'first-input'];
+  static instances: FakeObserver[] = [];
+
+  type?: string;
+  connected = false;
+
+  constructor(public callback: (list: { getEntries(): unknown[] }) => void) {
+    FakeObserver.instances.push(this);
+  }
+
+  observe({ type }: { type: string }) {
+    this.type = type;
+    this.connected = true;
+  }
+
+  disconnect() {
+    this.connected = false;
+  }
+}
+
+function emit(type: string, entries: object[]) {
+  FakeObserver.instances
+    .filter((observer) => observer.type === type && observer.connected)
+    .forEach((observer) => observer.callback({ getEntries: () => entries }));
+}
+
+function emitPageLoad() {
+  emit('paint', [{ name: 'first-contentful-paint', startTime: 900.4 }]);
+  emit('largest-contentful-paint', [{ startTime: 1800 }, { startTime: 2700 }]);
+  emit('layout-shift', [
+    { startTime: 100, value: 0.05, hadRecentInput: false },
+    { startTime: 600, value: 0.04, hadRecentInput: false },
+    { startTime: 700, value: 0.5, hadRecentInput: true },
+    { startTime: 3000, value: 0.02, hadRecentInput: false },
+  ]);
+  emit('event', [
+    { interactionId: 1, duration: 80 },
+    { interactionId: 1, duration: 120 },
+    { interactionId: 2, duration: 560 },
+    { duration: 900 },
+  ]);
+}
+
+describe('WebVitals', () => {
+  beforeEach(() => {
+    FakeObserver.instances = [];
+    (global as any).PerformanceObserver = FakeObserver;
+    (performance as any).getEntriesByType = () => [{ type: 'back_forward', responseStart: 350 }];
+  });
+
+  afterEach(() => {
+    delete (global as any).PerformanceObserver;
+    delete (performance as any).getEntriesByType;
+  });
+
+  describe('rateMetric', () => {
+    it('should rate values by the Core Web Vitals thresholds', () => {
+      expect(rateMetric('LCP', 2500)).toBe('good');
+      expect(rateMetric('LCP', 2501)).toBe('needs-improvement');
+      expect(rateMetric('CLS', 0.3)).toBe('poor');
+      expect(rateMetric('INP', 200)).toBe('good');
+    });
+  });
+
+  describe('WebVitalsTracker', () => {
+    it('should report each metric once when the page is hidden', () => {
+      const onMetric = jest.fn();
+      const tracker = new WebVitalsTracker(onMetric, () => '/pricing');
+      tracker.start();
+
+      emitPageLoad();
+      window.dispatchEvent(new Event('pagehide'));
+      window.dispatchEvent(new Event('pagehide'));
+      tracker.stop();
+
+      const metric = (name: string, value: number, rating: string) =>
+        ['web-vitals', { name, value, rating, navigationType: 'back-forward' }, '/pricing', true];
+      expect(onMetric.mock.calls).toEqual([
+        metric('LCP', 2700, 'needs-improvement'),
+        metric('CLS', 0.09, 'good'),
+        metric('INP', 560, 'poor'),
+        metric('FCP', 900, 'good'),
+        metric('TTFB', 350, 'good'),
+      ]);
+    });
+
+    it('should report only the configured metrics under the configured event name', () => {
+      const onMetric = jest.fn();
+      const tracker = new WebVitalsTracker(onMetric, () => '/', { eventName: 'vitals', metrics: ['LCP'] });
+      tracker.start();
+
+      emitPageLoad();
+      tracker.flush();
+      tracker.stop();
+
+      expect(onMetric).toHaveBeenCalledTimes(1);
+      expect(onMetric).toHaveBeenCalledWith('vitals', expect.objectContaining({ name: 'LCP' }), '/', false);
+    });
+
+    it('should report CLS and INP again for each route of a single page app', () => {
+      const onMetric = jest.fn();
+      let url = '/';
+      const tracker = new WebVitalsTracker(onMetric, () => url);
+      tracker.start();
+
+      emitPageLoad();
+      url = '/pricing';
+      tracker.navigate();
+      emit('largest-contentful-paint', [{ startTime: 5000 }]);
+      emit('event', [{ interactionId: 3, duration: 48 }]);
+      tracker.flush(true);
+      tracker.stop();
+
+      expect(onMetric.mock.calls.filter(([, , page]) => page === '/')).toHaveLength(5);
+      expect(onMetric.mock.calls.filter(([, , page]) => page === '/pricing')).toEqual([
+        ['web-vitals', { name: 'CLS', value: 0, rating: 'good', navigationType: 'soft-navigation' }, '/pricing', true],
+        ['web-vitals', { name: 'INP', value: 48, rating: 'good', navigationType: 'soft-navigation' }, '/pricing', true],
+      ]);
+    });
+
+    it('should skip metrics the browser does not measure', () => {
+      delete (global as any).PerformanceObserver;
+      const onMetric = jest.fn();
+      const tracker = new WebVitalsTracker(onMetric, () => '/');
+      tracker.start();
+
+      tracker.flush();
+      tracker.stop();
+
+      expect(onMetric.mock.calls.map(([, metric]) => metric.name)).toEqual(['TTFB']);
+    });
+
+    it('should disconnect observers and listeners when stopped', () => {
+      const onMetric = jest.fn();
+      const tracker = new WebVitalsTracker(onMetric, () => '/');
+      tracker.start();
+      tracker.stop();
+
+      emitPageLoad();
+      window.dispatchEvent(new Event('pagehide'));
+
+      expect(FakeObserver.instances.every((observer) => !observer.connected)).toBe(true);
+      expect(onMetric).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('client', () => {
+    let client: UmamiClient;
+
+    afterEach(() => {
+      client.reset();
+      jest.useRealTimers();
+      window.history.replaceState(null, '', '/');
+    });
+
+    it('should send metrics as events of the measured page on page hide', async () => {
+      const transport = createRecordingTransport();
+      client = createUmamiClient({ baseUrl: 'https://umami.is', websiteId: 'test-id', webVitals: true, transport });
+
+      emit('largest-contentful-paint', [{ startTime: 1200 }]);
+      window.dispatchEvent(new Event('pagehide'));
+      await Promise.resolve();
+
+      expect(transport.getTrackedEvents()).toEqual(
+        expect.arrayContaining([
+          {
+            type: 'event',
+            payload: expect.objectContaining({
+              name: 'web-vitals',
+              url: '/',
+              data: { metric: 'LCP', value: 1200, rating: 'good', navigationType: 'back-forward' },
+            }),
+          },
+        ])
+      );
+      expect(transport.getRequests()[0].keepalive).toBe(true);
+    });
+
+    it('should report the previous route on SPA navigations with autoTrack', async () => {
+      jest.useFakeTimers();
+      const transport = createRecordingTransport();
+      client = createUmamiClient({
+        baseUrl: 'https://umami.is',
+        websiteId: 'test-id',
+        autoTrack: true,
+        webVitals: { metrics: ['CLS'] },
+        transport,
+      });
+
+      window.history.pushState(null, '', '/pricing?plan=pro');
+      jest.advanceTimersByTime(300);
+      await Promise.resolve();
+
+      const events = transport.getTrackedEvents().map(({ payload }) => [payload.name || 'pageview', payload.url]);
+      expect(events).toEqual([
+        ['pageview', '/'],
+        ['web-vitals', '/'],
+        ['pageview', '/pricing?plan=pro'],
+      ]);
+    });
+  });
+});
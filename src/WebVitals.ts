@@ -0,0 +1,268 @@
+// Core Web Vitals and other page load metrics
+export type MetricName = 'LCP' | 'CLS' | 'INP' | 'FCP' | 'TTFB';
+
+// Rating of a metric value by the Core Web Vitals thresholds
+export type MetricRating = 'good' | 'needs-improvement' | 'poor';
+
+// A metric measured for one page view
+export interface Metric {
+    name: MetricName;
+    value: number;
+    rating: MetricRating;
+    navigationType: string;
+}
+
+// Web Vitals reporting options
+export interface WebVitalsOptions {
+    eventName?: string;
+    metrics?: MetricName[];
+}
+
+// Called for each metric, with the URL of the page it was measured on
+export type MetricHandler = (eventName: string, metric: Metric, url: string, pageHidden: boolean) => void;
+
+// Upper bounds of "good" and "needs improvement", in milliseconds (CLS is unitless)
+export const WEB_VITALS_THRESHOLDS: { [name in MetricName]: [number, number] } = {
+    LCP: [2500, 4000],
+    CLS: [0.1, 0.25],
+    INP: [200, 500],
+    FCP: [1800, 3000],
+    TTFB: [800, 1800],
+};
+
+const WEB_VITALS_EVENT_NAME = 'web-vitals';
+const ALL_METRICS: MetricName[] = ['LCP', 'CLS', 'INP', 'FCP', 'TTFB'];
+
+// Metrics the browser measures again after a route change in a single page app
+const SOFT_NAVIGATION_METRICS: MetricName[] = ['CLS', 'INP'];
+
+// Layout shifts less than 1s apart and within 5s form one session window
+const CLS_GAP = 1000;
+const CLS_WINDOW = 5000;
+
+// Interactions shorter than this are not reported by the event timing API
+const INP_DURATION_THRESHOLD = 40;
+
+/**
+ * Rate a metric value by the Core Web Vitals thresholds.
+ *
+ * @param name - Metric name
+ * @param value - Metric value
+ */
+export function rateMetric(name: MetricName, value: number): MetricRating {
+    const [good, poor] = WEB_VITALS_THRESHOLDS[name];
+    if (value <= good) return 'good';
+    return value <= poor ? 'needs-improvement' : 'poor';
+}
+
+interface LayoutShift extends PerformanceEntry {
+    value: number;
+    hadRecentInput: boolean;
+}
+
+interface EventTiming extends PerformanceEntry {
+    interactionId?: number;
+}
+
+/**
+ * Measures Core Web Vitals with PerformanceObserver and reports them once per page view,
+ * when the page is hidden or the single page app navigates to another route.
+ */
+export class WebVitalsTracker {
+    private eventName: string;
+    private metrics: MetricName[];
+    private values: { [name in MetricName]?: number } = {};
+    private reported = new Set<MetricName>();
+    private navigationType = 'navigate';
+    private url = '';
+    private measuresLayoutShifts = false;
+
+    // Layout shift session windows and interaction durations of the current page
+    private clsWindow = { value: 0, first: 0, last: 0 };
+    private interactions = new Map<number, number>();
+
+    private cleanup: (() => void)[] = [];
+
+    /**
+     * @param onMetric - Called with the event name, each metric and the URL of its page
+     * @param getUrl - Returns the URL of the current page
+     * @param options - Web Vitals options
+     */
+    constructor(private onMetric: MetricHandler, private getUrl: () => string, options: WebVitalsOptions = {}) {
+        this.eventName = options.eventName || WEB_VITALS_EVENT_NAME;
+        this.metrics = options.metrics || ALL_METRICS;
+    }
+
+    /**
+     * Start measuring the current page.
+     */
+    start(): void {
+        if (this.cleanup.length > 0 || typeof window === 'undefined') return;
+
+        this.url = this.getUrl();
+        this.readNavigation();
+
+        this.observe('largest-contentful-paint', (entries) => {
+            this.values.LCP = entries[entries.length - 1].startTime;
+        });
+        this.observe('paint', (entries) => {
+            const paint = entries.find((entry) => entry.name === 'first-contentful-paint');
+            if (paint) {
+                this.values.FCP = paint.startTime;
+            }
+        });
+        this.measuresLayoutShifts = this.observe('layout-shift', (entries) =>
+            this.addLayoutShifts(entries as LayoutShift[])
+        );
+        this.resetLayoutShifts();
+        this.observe('event', (entries) => this.addInteractions(entries as EventTiming[]), {
+            durationThreshold: INP_DURATION_THRESHOLD,
+        });
+        this.observe('first-input', (entries) => this.addInteractions(entries as EventTiming[]));
+
+        const onHidden = () => this.flush(true);
+        const onVisibilityChange = () => {
+            if (document.visibilityState === 'hidden') onHidden();
+        };
+        window.addEventListener('pagehide', onHidden);
+        document.addEventListener('visibilitychange', onVisibilityChange);
+        this.cleanup.push(() => {
+            window.removeEventListener('pagehide', onHidden);
+            document.removeEventListener('visibilitychange', onVisibilityChange);
+        });
+    }
+
+    /**
+     * Stop measuring, without reporting.
+     */
+    stop(): void {
+        this.cleanup.forEach((stop) => stop());
+        this.cleanup = [];
+    }
+
+    /**
+     * Report the metrics of the current page and start measuring a route of a single page app.
+     */
+    navigate(): void {
+        if (this.cleanup.length === 0) return;
+
+        this.flush(false);
+        this.url = this.getUrl();
+        this.navigationType = 'soft-navigation';
+        this.values = {};
+        this.reported.clear();
+        this.clsWindow = { value: 0, first: 0, last: 0 };
+        this.interactions.clear();
+        this.resetLayoutShifts();
+    }
+
+    /**
+     * Report the measured metrics that weren't reported for the current page yet.
+     *
+     * @param pageHidden - Whether the page is being hidden, so reports must survive unload
+     */
+    flush(pageHidden = false): void {
+        const values: { [name in MetricName]?: number } = { ...this.values, INP: this.getInp() };
+
+        this.metrics.forEach((name) => {
+            const value = values[name];
+            if (value === undefined || this.reported.has(name)) return;
+            if (this.navigationType === 'soft-navigation' && !SOFT_NAVIGATION_METRICS.includes(name)) return;
+
+            this.reported.add(name);
+            this.onMetric(
+                this.eventName,
+                { name, value: round(name, value), rating: rateMetric(name, value), navigationType: this.navigationType },
+                this.url,
+                pageHidden
+            );
+        });
+    }
+
+    private readNavigation(): void {
+        if (typeof performance === 'undefined' || typeof performance.getEntriesByType !== 'function') return;
+
+        const [navigation] = performance.getEntriesByType('navigation') as PerformanceNavigationTiming[];
+        if (!navigation) return;
+
+        this.navigationType = navigation.type.replace(/_/g, '-');
+        const activationStart = (navigation as PerformanceNavigationTiming & { activationStart?: number })
+            .activationStart || 0;
+        if (navigation.responseStart > 0) {
+            this.values.TTFB = Math.max(navigation.responseStart - activationStart, 0);
+        }
+    }
+
+    /**
+     * Observe entries of a type, including those recorded before.
+     *
+     * @returns Whether the browser supports the entry type
+     */
+    private observe(
+        type: string,
+        onEntries: (entries: PerformanceEntry[]) => void,
+        init: { durationThreshold?: number } = {}
+    ): boolean {
+        if (typeof PerformanceObserver === 'undefined') return false;
+        if (!(PerformanceObserver.supportedEntryTypes || []).includes(type)) return false;
+
+        const observer = new PerformanceObserver((list) => {
+            const entries = list.getEntries();
+            if (entries.length > 0) onEntries(entries);
+        });
+        observer.observe({ type, buffered: true, ...init } as PerformanceObserverInit);
+        this.cleanup.push(() => observer.disconnect());
+        return true;
+    }
+
+    /**
+     * A page without layout shifts has a CLS of 0, where the browser can measure them.
+     */
+    private resetLayoutShifts(): void {
+        if (this.measuresLayoutShifts) {
+            this.values.CLS = 0;
+        }
+    }
+
+    /**
+     * CLS is the largest sum of layout shifts in one session window.
+     */
+    private addLayoutShifts(entries: LayoutShift[]): void {
+        entries.forEach((entry) => {
+            if (entry.hadRecentInput) return;
+
+            const session = this.clsWindow;
+            const gap = entry.startTime - session.last;
+            if (session.value > 0 && gap < CLS_GAP && entry.startTime - session.first < CLS_WINDOW) {
+                session.value += entry.value;
+            } else {
+                session.value = entry.value;
+                session.first = entry.startTime;
+            }
+            session.last = entry.startTime;
+            this.values.CLS = Math.max(this.values.CLS || 0, session.value);
+        });
+    }
+
+    private addInteractions(entries: EventTiming[]): void {
+        entries.forEach((entry) => {
+            if (!entry.interactionId) return;
+            const duration = this.interactions.get(entry.interactionId) || 0;
+            this.interactions.set(entry.interactionId, Math.max(duration, entry.duration));
+        });
+    }
+
+    /**
+     * INP is the slowest interaction, ignoring one outlier per 50 interactions.
+     */
+    private getInp(): number | undefined {
+        if (this.interactions.size === 0) return undefined;
+
+        const durations = Array.from(this.interactions.values()).sort((a, b) => b - a);
+        return durations[Math.min(durations.length - 1, Math.floor(durations.length / 50))];
+    }
+}
+
+function round(name: MetricName, value: number): number {
+    return name === 'CLS' ? Math.round(value * 1000) / 1000 : Math.round(value);
+}
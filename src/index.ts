@@ -6,142 +6,99 @@ import UmamiLogger, {
     IdentifyData,
     RevenueData,
     PayloadCallback,
+    SendOptions,
+    SendResult,
+    SkipReason,
+    EventValidator,
 } from './UmamiLogger';
+import {
+    OfflineQueueOptions,
+    QueueStorage,
+    QueuedEvent,
+    MemoryQueueStorage,
+    LocalStorageQueueStorage,
+    IndexedDBQueueStorage,
+} from './OfflineQueue';
+import { BatchOptions, BatchEntry, UmamiBatchResponse } from './Batcher';
+import {
+    Transport,
+    TransportRequest,
+    TransportResponse,
+    AxiosLike,
+    TransportError,
+    createFetchTransport,
+    createBeaconTransport,
+    createUnloadTransport,
+    createXhrTransport,
+    createAxiosTransport,
+} from './Transport';
+import {
+    UmamiClient,
+    EventCatalog,
+    EventMap,
+    EventName,
+    LegacyResult,
+    bindClient,
+    createUmamiClient,
+    toLegacyResult,
+    trackInBackground,
+} from './UmamiClient';
+import { AutoTrackOptions } from './AutoTracker';
+import { ClickTrackingOptions, getElementEvent } from './ClickTracker';
+import { LinkTrackingOptions, DEFAULT_DOWNLOAD_EXTENSIONS } from './LinkTracker';
+import { ErrorTrackingOptions, ErrorDetails, fingerprintError, normalizeSource } from './ErrorTracker';
+import { Metric, MetricName, MetricRating, WebVitalsOptions, WEB_VITALS_THRESHOLDS, rateMetric } from './WebVitals';
+import { EngagementOptions } from './Engagement';
+import { ConsentState } from './Consent';
+import { Plugin, PluginContext, BlockReason, BeforeSendResult } from './Plugin';
+import {
+    ClientEventMap,
+    ClientEventHandler,
+    SentEvent,
+    FailedEvent,
+    BlockedEvent,
+    FilteredEvent,
+    BlockedReason,
+    FilteredReason,
+    FailedReason,
+    LoggerLike,
+} from './Emitter';
+import { SamplingRule, RateLimitOptions, DedupeOptions, DropReason } from './Sampler';
+import {
+    PayloadLimits,
+    PayloadWarning,
+    ValidationOptions,
+    PayloadValidationError,
+    UMAMI_LIMITS,
+    normalizePayload,
+} from './PayloadValidator';
+import { RequestContext, RequestLike, RequestHeaders, getRequestContext } from './RequestContext';
 
-const Umami = {
-    /**
-     * Initialize the Umami logger with configuration.
-     *
-     * @param config - Configuration options
-     */
-    initialize(config: UmamiConfig): void {
-        UmamiLogger.getInstance().initialize(config);
-    },
+// Default client backed by the shared UmamiLogger instance
+const Umami: UmamiClient = bindClient(
+    () => UmamiLogger.getInstance(),
+    () => UmamiLogger.resetInstance()
+);
 
-    /**
-     * Track a custom event.
-     *
-     * @param eventName - Name of the event
-     * @param eventData - Optional data to attach to the event
-     */
-    trackEvent(eventName: string, eventData?: EventData): Promise<UmamiResponse | void> {
-        return UmamiLogger.getInstance().logEvent(eventName, eventData);
-    },
-
-    /**
-     * Track a page view.
-     *
-     * @param overrideUrl - Optional URL to override the default
-     */
-    trackPageView(overrideUrl?: string): Promise<UmamiResponse | void> {
-        return UmamiLogger.getInstance().trackPageView(overrideUrl);
-    },
-
-    /**
-     * Generic track function with multiple overloads.
-     * Mimics umami.track() behavior from the official tracker.
-     *
-     * @overload track() - Track current page view
-     * @overload track(eventName: string) - Track named event
-     * @overload track(eventName: string, data: EventData) - Track named event with data
-     * @overload track(payload: Partial<UmamiPayload>) - Track with custom payload
-     * @overload track(callback: PayloadCallback) - Track with callback to modify payload
-     */
-    track(
-        eventNameOrPayloadOrCallback?: string | Partial<UmamiPayload> | PayloadCallback,
-        eventData?: EventData
-    ): Promise<UmamiResponse | void> {
-        return UmamiLogger.getInstance().track(eventNameOrPayloadOrCallback, eventData);
-    },
-
-    /**
-     * Track a revenue event.
-     *
-     * @param eventName - Name of the event (e.g., 'checkout-cart', 'purchase')
-     * @param revenue - The revenue amount
-     * @param currency - ISO 4217 currency code (e.g., 'USD', 'EUR')
-     * @param additionalData - Optional additional event data
-     */
-    trackRevenue(
-        eventName: string,
-        revenue: number,
-        currency: string,
-        additionalData?: EventData
-    ): Promise<UmamiResponse | void> {
-        return UmamiLogger.getInstance().trackRevenue(eventName, revenue, currency, additionalData);
-    },
-
-    /**
-     * Identify the current session with a unique ID and optional data.
-     * This links all subsequent events to this identity.
-     *
-     * @overload identify(uniqueId: string) - Identify with just an ID
-     * @overload identify(uniqueId: string, data: IdentifyData) - Identify with ID and data
-     * @overload identify(data: IdentifyData) - Identify with just data (session data)
-     */
-    identify(
-        uniqueIdOrData?: string | IdentifyData,
-        data?: IdentifyData
-    ): Promise<UmamiResponse | void> {
-        return UmamiLogger.getInstance().identify(uniqueIdOrData, data);
-    },
-
-    /**
-     * Get the current session ID.
-     */
-    getSessionId(): string | undefined {
-        return UmamiLogger.getInstance().getSessionId();
-    },
-
-    /**
-     * Get the current session data.
-     */
-    getSessionData(): IdentifyData | undefined {
-        return UmamiLogger.getInstance().getSessionData();
-    },
-
-    /**
-     * Clear the current session identity.
-     */
-    clearIdentity(): void {
-        UmamiLogger.getInstance().clearIdentity();
-    },
-
-    /**
-     * Set a tag for all subsequent events.
-     *
-     * @param tag - Tag to assign to events
-     */
-    setTag(tag: string): void {
-        UmamiLogger.getInstance().setTag(tag);
-    },
-
-    /**
-     * Clear the current tag.
-     */
-    clearTag(): void {
-        UmamiLogger.getInstance().clearTag();
-    },
-
-    /**
-     * Get the current configuration.
-     */
-    getConfig(): UmamiConfig | undefined {
-        return UmamiLogger.getInstance().getConfig();
-    },
+export default Umami;
 
-    /**
-     * Reset the logger instance (useful for testing).
-     */
-    reset(): void {
-        UmamiLogger.resetInstance();
-    },
+export { createUmamiClient, toLegacyResult, trackInBackground, getRequestContext, getElementEvent };
+export { DEFAULT_DOWNLOAD_EXTENSIONS };
+export { PayloadValidationError, UMAMI_LIMITS, normalizePayload };
+export { fingerprintError, normalizeSource, WEB_VITALS_THRESHOLDS, rateMetric };
+export { MemoryQueueStorage, LocalStorageQueueStorage, IndexedDBQueueStorage };
+export {
+    TransportError,
+    createFetchTransport,
+    createBeaconTransport,
+    createUnloadTransport,
+    createXhrTransport,
+    createAxiosTransport,
 };
 
-export default Umami;
-
 // Export types for consumers
 export type {
+    UmamiClient,
     UmamiConfig,
     UmamiPayload,
     UmamiResponse,
@@ -149,4 +106,57 @@ export type {
     IdentifyData,
     RevenueData,
     PayloadCallback,
+    SendOptions,
+    SendResult,
+    SkipReason,
+    LegacyResult,
+    EventValidator,
+    EventCatalog,
+    EventMap,
+    EventName,
+    OfflineQueueOptions,
+    QueueStorage,
+    QueuedEvent,
+    BatchOptions,
+    BatchEntry,
+    UmamiBatchResponse,
+    Transport,
+    TransportRequest,
+    TransportResponse,
+    AxiosLike,
+    RequestContext,
+    RequestLike,
+    RequestHeaders,
+    AutoTrackOptions,
+    ClickTrackingOptions,
+    LinkTrackingOptions,
+    ErrorTrackingOptions,
+    ErrorDetails,
+    WebVitalsOptions,
+    Metric,
+    MetricName,
+    MetricRating,
+    EngagementOptions,
+    ConsentState,
+    PayloadLimits,
+    PayloadWarning,
+    ValidationOptions,
+    SamplingRule,
+    RateLimitOptions,
+    DedupeOptions,
+    DropReason,
+    Plugin,
+    PluginContext,
+    BlockReason,
+    BeforeSendResult,
+    ClientEventMap,
+    ClientEventHandler,
+    SentEvent,
+    FailedEvent,
+    BlockedEvent,
+    FilteredEvent,
+    BlockedReason,
+    FilteredReason,
+    FailedReason,
+    LoggerLike,
 };
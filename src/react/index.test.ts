@@ -0,0 +1,128 @@
+import { act, createElement } from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import { UmamiProvider, useUmami, usePageView, TrackEvent } from './index';
+import { createUmamiClient, UmamiClient } from '../UmamiClient';
+import { Transport } from '../Transport';
+
+(global as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+describe('React bindings', () => {
+  let container: HTMLDivElement;
+  let root: Root;
+  let transport: Transport;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    root = createRoot(container);
+    transport = { send: jest.fn().mockResolvedValue({ status: 200, data: {} }) };
+  });
+
+  afterEach(() => {
+    act(() => root.unmount());
+    container.remove();
+  });
+
+  const config = () => ({ baseUrl: 'https://umami.is', websiteId: 'test-id', transport });
+
+  function sentPayloads() {
+    return (transport.send as jest.Mock).mock.calls.map(([request]) => request.body.payload);
+  }
+
+  it('should track page views from usePageView in child effects', () => {
+    function Page({ path }: { path: string }) {
+      usePageView(path);
+      return null;
+    }
+
+    act(() => root.render(createElement(UmamiProvider, { config: config() }, createElement(Page, { path: '/first' }))));
+    act(() => root.render(createElement(UmamiProvider, { config: config() }, createElement(Page, { path: '/second' }))));
+
+    expect(sentPayloads().map((payload) => payload.url)).toEqual([
+      expect.stringMatching(/^\/first/),
+      expect.stringMatching(/^\/second/),
+    ]);
+  });
+
+  it('should expose the client through useUmami', () => {
+    let client: UmamiClient | undefined;
+    function Consumer() {
+      client = useUmami();
+      return null;
+    }
+
+    act(() => root.render(createElement(UmamiProvider, { config: config() }, createElement(Consumer))));
+    act(() => {
+      client!.trackEvent('from-hook', { ok: true });
+    });
+
+    expect(sentPayloads()).toEqual([expect.objectContaining({ name: 'from-hook', data: { ok: true } })]);
+  });
+
+  it('should throw when useUmami is used outside a provider', () => {
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+    function Consumer() {
+      useUmami();
+      return null;
+    }
+
+    expect(() => act(() => root.render(createElement(Consumer)))).toThrow('useUmami must be used within an UmamiProvider');
+    consoleSpy.mockRestore();
+  });
+
+  it('should track clicks with TrackEvent and keep the child onClick', () => {
+    const onClick = jest.fn();
+
+    act(() =>
+      root.render(
+        createElement(
+          UmamiProvider,
+          { config: config() },
+          createElement(TrackEvent, {
+            name: 'signup',
+            data: { plan: 'pro' },
+            children: createElement('button', { onClick }, 'Go'),
+          })
+        )
+      )
+    );
+    act(() => container.querySelector('button')!.click());
+
+    expect(sentPayloads()).toEqual([expect.objectContaining({ name: 'signup', data: { plan: 'pro' } })]);
+    expect(onClick).toHaveBeenCalledTimes(1);
+  });
+
+  it('should log errors of tracking calls instead of rejecting', async () => {
+    const logger = { warn: jest.fn(), error: jest.fn() };
+    const strictConfig = { ...config(), logger, validation: { strict: true, limits: { name: 3 } } };
+
+    act(() =>
+      root.render(
+        createElement(
+          UmamiProvider,
+          { config: strictConfig },
+          createElement(TrackEvent, { name: 'signup', children: createElement('button', null, 'Go') })
+        )
+      )
+    );
+    act(() => container.querySelector('button')!.click());
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(logger.error).toHaveBeenCalledWith('Error tracking event:', expect.any(Error));
+  });
+
+  it('should use an existing client without resetting it on unmount', () => {
+    const client = createUmamiClient(config());
+    function Page() {
+      usePageView('/shared');
+      return null;
+    }
+
+    act(() => root.render(createElement(UmamiProvider, { client }, createElement(Page))));
+    act(() => root.unmount());
+    root = createRoot(container);
+
+    expect(sentPayloads()).toHaveLength(1);
+    expect(client.getConfig()?.websiteId).toBe('test-id');
+  });
+});
@@ -0,0 +1,104 @@
+import {
+    Children,
+    ReactElement,
+    ReactNode,
+    cloneElement,
+    createContext,
+    createElement,
+    useContext,
+    useEffect,
+    useRef,
+    useState,
+} from 'react';
+import { UmamiClient, EventCatalog, EventMap, createUmamiClient, trackInBackground } from '../UmamiClient';
+import { UmamiConfig, EventData } from '../UmamiLogger';
+
+// Props for UmamiProvider
+export interface UmamiProviderProps {
+    config?: UmamiConfig;
+    client?: UmamiClient;
+    children?: ReactNode;
+}
+
+// Props for TrackEvent
+export interface TrackEventProps {
+    name: string;
+    data?: EventData;
+    children: ReactElement;
+}
+
+const UmamiContext = createContext<UmamiClient | undefined>(undefined);
+
+/**
+ * Provide an Umami client to the component tree.
+ * Pass `config` to create and initialize a client, or `client` to share an existing one.
+ * Nothing touches `window` during server rendering; the client is initialized in the browser.
+ */
+export function UmamiProvider({ config, client: externalClient, children }: UmamiProviderProps) {
+    const [client] = useState(() => externalClient || createUmamiClient());
+    const initialized = useRef(false);
+
+    // Initialize during the first browser render, so effects of children can already track
+    if (!externalClient && config && !initialized.current && typeof window !== 'undefined') {
+        client.initialize(config);
+        initialized.current = true;
+    }
+
+    useEffect(() => {
+        if (externalClient || !config) return;
+
+        if (!initialized.current) {
+            client.initialize(config);
+            initialized.current = true;
+        }
+
+        return () => {
+            client.reset();
+            initialized.current = false;
+        };
+    }, [client]);
+
+    return createElement(UmamiContext.Provider, { value: client }, children);
+}
+
+/**
+ * Get the Umami client of the nearest UmamiProvider.
+ * Pass the event catalog of the client as type argument to get typed tracking methods.
+ */
+export function useUmami<Events extends EventCatalog<Events> = EventMap>(): UmamiClient<Events> {
+    const client = useContext(UmamiContext);
+    if (!client) {
+        throw new Error('useUmami must be used within an UmamiProvider');
+    }
+    return client as unknown as UmamiClient<Events>;
+}
+
+/**
+ * Track a page view when the component mounts and whenever `path` changes.
+ *
+ * @param path - Optional URL to track instead of the current location
+ */
+export function usePageView(path?: string): void {
+    const client = useUmami();
+
+    useEffect(() => {
+        trackInBackground(client, client.trackPageView(path));
+    }, [client, path]);
+}
+
+/**
+ * Track an event when the wrapped child is clicked. The child's own onClick still runs.
+ */
+export function TrackEvent({ name, data, children }: TrackEventProps) {
+    const client = useUmami();
+    const child = Children.only(children);
+
+    return cloneElement(child, {
+        onClick: (...args: unknown[]) => {
+            trackInBackground(client, client.trackEvent(name, data));
+            if (typeof child.props.onClick === 'function') {
+                child.props.onClick(...args);
+            }
+        },
+    });
+}
@@ -0,0 +1,29 @@
+/**
+ * @jest-environment node
+ */
+import { createElement } from 'react';
+import { renderToString } from 'react-dom/server';
+import { UmamiProvider, usePageView, TrackEvent } from './index';
+import { Transport } from '../Transport';
+
+describe('React bindings during server rendering', () => {
+  it('should render without touching browser globals or sending events', () => {
+    const transport: Transport = { send: jest.fn() };
+    function Page() {
+      usePageView('/ssr');
+      return createElement(TrackEvent, { name: 'signup', children: createElement('button', null, 'Go') });
+    }
+
+    const html = renderToString(
+      createElement(
+        UmamiProvider,
+        { config: { baseUrl: 'https://umami.is', websiteId: 'test-id', transport, autoTrack: true } },
+        createElement(Page)
+      )
+    );
+
+    expect(typeof window).toBe('undefined');
+    expect(html).toBe('<button>Go</button>');
+    expect(transport.send).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,100 @@
+import { createRecordingTransport, createTestClient, umamiMatchers } from './index';
+import { createUmamiClient } from '../UmamiClient';
+
+expect.extend(umamiMatchers);
+
+describe('createRecordingTransport', () => {
+  it('should record sent payloads without network access', async () => {
+    const transport = createRecordingTransport();
+    const client = createUmamiClient({ baseUrl: 'https://umami.is', websiteId: 'test-id', transport });
+
+    const result = await client.trackEvent('signup', { plan: 'pro' });
+
+    expect(result).toEqual({ status: 'sent', response: {} });
+    expect(transport.getRequests()[0].url).toBe('https://umami.is/api/send');
+    expect(transport.getTrackedEvents()).toEqual([
+      { type: 'event', payload: expect.objectContaining({ website: 'test-id', name: 'signup', data: { plan: 'pro' } }) },
+    ]);
+  });
+
+  it('should split batch requests into their entries', async () => {
+    const transport = createRecordingTransport();
+    const client = createUmamiClient({ baseUrl: 'https://umami.is', websiteId: 'test-id', transport, batch: true });
+
+    client.trackEvent('first');
+    client.trackEvent('second');
+    await client.flushBatch();
+
+    expect(transport.getRequests()).toHaveLength(1);
+    expect(transport.getTrackedEvents().map(({ payload }) => payload.name)).toEqual(['first', 'second']);
+  });
+
+  it('should return the configured response', async () => {
+    const transport = createRecordingTransport({ sessionId: 'session-1' });
+    const client = createUmamiClient({ baseUrl: 'https://umami.is', websiteId: 'test-id', transport });
+
+    const result = await client.trackPageView();
+
+    expect(result).toEqual({ status: 'sent', response: { sessionId: 'session-1' } });
+  });
+});
+
+describe('createTestClient', () => {
+  it('should track into memory and clear the records', async () => {
+    const client = createTestClient({ tag: 'beta' });
+
+    await client.trackEvent('signup');
+    expect(client.getTrackedEvents()[0].payload).toEqual(expect.objectContaining({ name: 'signup', tag: 'beta' }));
+
+    client.clear();
+    expect(client.getTrackedEvents()).toEqual([]);
+    expect(client.transport.getRequests()).toEqual([]);
+  });
+
+  it('should record events sent for unload delivery', async () => {
+    const mockFetch = jest.fn();
+    (global as any).fetch = mockFetch;
+    const client = createTestClient();
+
+    await client.trackEvent('outbound', {}, { beacon: true });
+
+    expect(client).toHaveTrackedEvent('outbound');
+    expect(client.transport.getRequests()[0].keepalive).toBe(true);
+    expect(mockFetch).not.toHaveBeenCalled();
+    delete (global as any).fetch;
+  });
+});
+
+describe('umamiMatchers', () => {
+  it('should match tracked events by name and partial data', async () => {
+    const client = createTestClient();
+
+    await client.trackEvent('signup', { plan: 'pro', seats: 3 });
+
+    expect(client).toHaveTrackedEvent('signup');
+    expect(client).toHaveTrackedEvent('signup', { plan: 'pro' });
+    expect(client).toHaveTrackedEvent('signup', { seats: expect.any(Number) });
+    expect(client).not.toHaveTrackedEvent('signup', { plan: 'free' });
+    expect(client).not.toHaveTrackedEvent('logout');
+  });
+
+  it('should match tracked page views by URL', async () => {
+    const client = createTestClient();
+
+    await client.trackPageView('/pricing');
+    await client.trackEvent('signup');
+
+    expect(client).toHaveTrackedPageView('/pricing');
+    expect(client).not.toHaveTrackedPageView('/about');
+    expect(client.getTrackedEvents()).toHaveTrackedPageView('/pricing');
+  });
+
+  it('should list the tracked events when a match fails', async () => {
+    const client = createTestClient();
+
+    await client.trackEvent('signup');
+
+    expect(() => expect(client).toHaveTrackedEvent('logout')).toThrow(/Tracked:[\s\S]*signup/);
+    expect(() => expect([]).toHaveTrackedPageView('/')).toThrow('No events were tracked');
+  });
+});
@@ -0,0 +1,181 @@
+import { Transport, TransportRequest, TransportResponse } from '../Transport';
+import { UmamiClient, EventCatalog, EventMap, createUmamiClient } from '../UmamiClient';
+import { UmamiConfig, UmamiPayload, EventData } from '../UmamiLogger';
+
+// A payload captured by the recording transport, as it would have been sent to Umami
+export interface TrackedEvent {
+    type: string;
+    payload: UmamiPayload;
+}
+
+// Anything that exposes tracked events
+export interface TrackedEventSource {
+    getTrackedEvents(): TrackedEvent[];
+}
+
+// Transport that keeps requests in memory instead of sending them
+export interface RecordingTransport extends Transport, TrackedEventSource {
+    getRequests(): TransportRequest[];
+    clear(): void;
+}
+
+// Client backed by a recording transport
+export type TestClient<Events extends EventCatalog<Events> = EventMap> = UmamiClient<Events> &
+    TrackedEventSource & {
+        transport: RecordingTransport;
+        clear(): void;
+    };
+
+// Subset of the Jest and Vitest matcher context used by the matchers
+export interface MatcherContext {
+    isNot?: boolean;
+    equals(a: unknown, b: unknown): boolean;
+    utils?: {
+        printExpected(value: unknown): string;
+        printReceived(value: unknown): string;
+    };
+}
+
+// Result of a custom matcher
+export interface MatcherResult {
+    pass: boolean;
+    message(): string;
+}
+
+// Matchers added by `expect.extend(umamiMatchers)`, for typing the expect API
+export interface UmamiMatchers<R = unknown> {
+    toHaveTrackedEvent(name: string, data?: EventData): R;
+    toHaveTrackedPageView(url: string): R;
+}
+
+// Adds the matchers to Jest's expect types
+declare global {
+    namespace jest {
+        interface Matchers<R, T = {}> extends UmamiMatchers<R> {}
+    }
+}
+
+const DEFAULT_TEST_CONFIG: UmamiConfig = {
+    baseUrl: 'https://umami.test',
+    websiteId: 'test-website-id',
+};
+
+/**
+ * Transport that records every request and answers like Umami without any network access.
+ * Batch requests are split into their entries.
+ *
+ * @param response - Data returned for each request, defaults to an empty object
+ */
+export function createRecordingTransport(response: unknown = {}): RecordingTransport {
+    let requests: TransportRequest[] = [];
+    let events: TrackedEvent[] = [];
+
+    return {
+        async send(request): Promise<TransportResponse> {
+            requests.push(request);
+            const entries = Array.isArray(request.body) ? request.body : [request.body];
+            events.push(...(entries as TrackedEvent[]).map(({ type, payload }) => ({ type, payload })));
+            return { status: 200, data: response };
+        },
+
+        getRequests() {
+            return [...requests];
+        },
+
+        getTrackedEvents() {
+            return [...events];
+        },
+
+        clear() {
+            requests = [];
+            events = [];
+        },
+    };
+}
+
+/**
+ * Create an initialized client that records events instead of sending them.
+ * Pass config to override the test defaults, e.g. `{ tag: 'beta' }`.
+ *
+ * @param config - Optional configuration merged over a test base URL and website ID
+ */
+export function createTestClient<Events extends EventCatalog<Events> = EventMap>(
+    config: Partial<UmamiConfig> = {}
+): TestClient<Events> {
+    const transport = createRecordingTransport();
+    const client = createUmamiClient<Events>({ ...DEFAULT_TEST_CONFIG, ...config, transport });
+
+    return Object.assign(client, {
+        transport,
+        getTrackedEvents: () => transport.getTrackedEvents(),
+        clear: () => transport.clear(),
+    });
+}
+
+function getEvents(received: TrackedEventSource | TrackedEvent[]): TrackedEvent[] {
+    return Array.isArray(received) ? received : received.getTrackedEvents();
+}
+
+function print(context: MatcherContext, value: unknown, kind: 'Expected' | 'Received'): string {
+    if (!context.utils) return JSON.stringify(value);
+    return kind === 'Expected' ? context.utils.printExpected(value) : context.utils.printReceived(value);
+}
+
+function describeTracked(context: MatcherContext, events: TrackedEvent[]): string {
+    if (events.length === 0) return 'No events were tracked';
+    const tracked = events.map(({ payload }) =>
+        payload.name ? { name: payload.name, data: payload.data } : { url: payload.url }
+    );
+    return `Tracked: ${print(context, tracked, 'Received')}`;
+}
+
+/**
+ * Jest and Vitest matchers for tracked events. Register them with `expect.extend(umamiMatchers)`;
+ * they accept a test client, a recording transport or an array of tracked events.
+ */
+export const umamiMatchers = {
+    /**
+     * Check that an event was tracked. Data is matched partially and may contain asymmetric matchers.
+     *
+     * @param name - Event name
+     * @param data - Optional subset of the event data
+     */
+    toHaveTrackedEvent(
+        this: MatcherContext,
+        received: TrackedEventSource | TrackedEvent[],
+        name: string,
+        data?: EventData
+    ): MatcherResult {
+        const events = getEvents(received);
+        const pass = events.some(
+            ({ type, payload }) =>
+                type === 'event' &&
+                payload.name === name &&
+                (!data || Object.keys(data).every((key) => this.equals(payload.data?.[key], data[key])))
+        );
+        const expected = print(this, data ? { name, data } : { name }, 'Expected');
+
+        return {
+            pass,
+            message: () =>
+                `Expected ${pass ? 'no' : 'an'} event matching ${expected} to be tracked\n${describeTracked(this, events)}`,
+        };
+    },
+
+    /**
+     * Check that a page view of a URL was tracked.
+     *
+     * @param url - Page URL as sent to Umami
+     */
+    toHaveTrackedPageView(this: MatcherContext, received: TrackedEventSource | TrackedEvent[], url: string): MatcherResult {
+        const events = getEvents(received);
+        const pass = events.some(({ type, payload }) => type === 'event' && !payload.name && payload.url === url);
+        const expected = print(this, url, 'Expected');
+
+        return {
+            pass,
+            message: () =>
+                `Expected ${pass ? 'no' : 'a'} page view of ${expected} to be tracked\n${describeTracked(this, events)}`,
+        };
+    },
+};
@@ -0,0 +1,172 @@
+/**
+ * @jest-environment node
+ */
+import { request } from 'http';
+import { startUmamiTestServer, validateUmamiBody, UmamiTestServer } from './server';
+import { umamiMatchers } from './index';
+import { createUmamiClient } from '../UmamiClient';
+import { UmamiConfig } from '../UmamiLogger';
+
+expect.extend(umamiMatchers);
+
+const websiteId = '5c4f2a1e-8b3d-4e6f-9a0b-1c2d3e4f5a6b';
+
+describe('validateUmamiBody', () => {
+  it('should accept a valid body', () => {
+    expect(validateUmamiBody({ type: 'event', payload: { website: websiteId, url: '/', data: { a: 1 } } })).toBeUndefined();
+  });
+
+  it('should reject bodies outside the schema', () => {
+    expect(validateUmamiBody([])).toBe('body must be an object');
+    expect(validateUmamiBody({ type: 'click', payload: {} })).toBe('type must be "event" or "identify"');
+    expect(validateUmamiBody({ type: 'event', payload: { website: 'test-id' } })).toBe('payload.website must be a UUID');
+    expect(validateUmamiBody({ type: 'event', payload: { website: websiteId, name: 'x'.repeat(51) } })).toBe(
+      'payload.name exceeds 50 characters'
+    );
+    expect(validateUmamiBody({ type: 'event', payload: { website: websiteId, data: [] } })).toBe(
+      'payload.data must be an object'
+    );
+  });
+});
+
+describe('startUmamiTestServer', () => {
+  let server: UmamiTestServer;
+
+  const createClient = (config: Partial<UmamiConfig> = {}) =>
+    createUmamiClient({ baseUrl: server.url, websiteId, server: true, logger: false, ...config });
+
+  beforeEach(async () => {
+    server = await startUmamiTestServer();
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('should record events sent over HTTP and answer like Umami', async () => {
+    const client = createClient();
+
+    const result = await client.trackEvent('signup', { plan: 'pro' });
+
+    expect(result).toEqual({
+      status: 'sent',
+      response: { cache: expect.any(String), sessionId: expect.stringMatching(/^[0-9a-f-]{36}$/), visitId: expect.any(String) },
+    });
+    expect(server).toHaveTrackedEvent('signup', { plan: 'pro' });
+    expect(server.getRequests()[0]).toEqual(expect.objectContaining({ method: 'POST', path: '/api/send', status: 200 }));
+  });
+
+  it('should keep the session of a returned cache token', async () => {
+    const client = createClient();
+
+    const first = await client.trackPageView('/');
+    const second = await client.trackPageView('/pricing');
+
+    expect(server.getRequests()[1].headers['x-umami-cache']).toBe(first.status === 'sent' && first.response.cache);
+    expect(second).toEqual(first);
+    expect(server).toHaveTrackedPageView('/pricing');
+  });
+
+  it('should answer batches with per-entry details', async () => {
+    const client = createClient({ batch: true, validateEvent: () => true });
+
+    const valid = client.trackEvent('first');
+    const invalid = client.track({ website: 'not-a-uuid', name: 'second' });
+    await client.flushBatch();
+
+    expect(await valid).toEqual({ status: 'sent', response: {} });
+    expect(await invalid).toEqual({ status: 'failed', error: expect.objectContaining({ status: 200 }) });
+    expect(server.getTrackedEvents().map(({ payload }) => payload.name)).toEqual(['first']);
+  });
+
+  it('should reject invalid bodies with a 400', async () => {
+    const client = createClient({ websiteId: 'test-id' });
+
+    const result = await client.trackEvent('signup');
+
+    expect(result).toEqual({ status: 'failed', error: expect.objectContaining({ status: 400 }) });
+    expect(server.getTrackedEvents()).toEqual([]);
+  });
+
+  it('should simulate error statuses a number of times', async () => {
+    const client = createClient();
+    server.simulate(503, 1);
+
+    const failed = await client.trackEvent('signup');
+    const sent = await client.trackEvent('signup');
+
+    expect(failed).toEqual({ status: 'failed', error: expect.objectContaining({ status: 503 }) });
+    expect(sent.status).toBe('sent');
+  });
+
+  it('should simulate custom error responses', async () => {
+    const onError = jest.fn();
+    const client = createClient({ onError });
+    server.simulate({ status: 429, body: { error: 'Too many requests' } });
+
+    await client.trackEvent('signup');
+
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ reason: 'http', status: 429, response: { status: 429, data: { error: 'Too many requests' } } })
+    );
+  });
+
+  it('should simulate dropped connections', async () => {
+    const client = createClient();
+    server.simulate({ timeout: 10 });
+
+    const result = await client.trackEvent('signup');
+
+    expect(result.status).toBe('failed');
+    expect(server).not.toHaveTrackedEvent('signup');
+  });
+
+  it('should leave requests unanswered until the server closes', async () => {
+    const client = createClient();
+    server.simulate('timeout');
+
+    const result = client.trackEvent('signup');
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    await server.close();
+
+    expect((await result).status).toBe('failed');
+    server = await startUmamiTestServer();
+  });
+
+  it('should survive requests aborted while sending the body', async () => {
+    const aborted = request(`${server.url}/api/send`, { method: 'POST', headers: { 'Content-Length': '100' } });
+    aborted.on('error', () => undefined);
+    aborted.write('{"type":');
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    aborted.destroy();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    await createClient().trackEvent('signup');
+
+    expect(server).toHaveTrackedEvent('signup');
+  });
+
+  it('should answer bots without recording them', async () => {
+    const client = createClient();
+
+    server.simulate('bot', 1);
+    const simulated = await client.trackEvent('signup');
+    const detected = await client.withRequest({ url: '/', userAgent: 'Googlebot/2.1' }).trackEvent('signup');
+
+    expect(simulated).toEqual({ status: 'sent', response: { beep: 'boop' } });
+    expect(detected).toEqual({ status: 'sent', response: { beep: 'boop' } });
+    expect(server.getTrackedEvents()).toEqual([]);
+  });
+
+  it('should clear recorded requests and simulations', async () => {
+    const client = createClient();
+    server.simulate(500);
+    await client.trackEvent('signup');
+
+    server.clear();
+    await client.trackEvent('signup');
+
+    expect(server.getRequests()).toHaveLength(1);
+    expect(server).toHaveTrackedEvent('signup');
+  });
+});
@@ -0,0 +1,273 @@
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { createHash, randomUUID } from 'crypto';
+import { UMAMI_LIMITS } from '../PayloadValidator';
+import { UmamiResponse } from '../UmamiLogger';
+import { UmamiBatchResponse } from '../Batcher';
+import { TrackedEvent, TrackedEventSource } from './index';
+
+// Failure the server answers with instead of a normal response:
+// a status code, Umami's bot response, a request that never gets an answer, or one dropped after ms
+export type SimulatedFailure = number | { status: number; body?: unknown } | 'bot' | 'timeout' | { timeout: number };
+
+// A request received by the test server
+export interface ReceivedRequest {
+    method: string;
+    path: string;
+    headers: { [name: string]: string | string[] | undefined };
+    body: unknown;
+    status?: number;
+}
+
+// Test server options
+export interface UmamiTestServerOptions {
+    port?: number;
+    host?: string;
+    detectBots?: boolean;
+}
+
+// Running test server, its base URL is passed as baseUrl to the client
+export interface UmamiTestServer extends TrackedEventSource {
+    url: string;
+    port: number;
+    getRequests(): ReceivedRequest[];
+    simulate(failure: SimulatedFailure, times?: number): void;
+    clear(): void;
+    close(): Promise<void>;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const BOT_PATTERN = /bot|crawl|spider|slurp|headless|lighthouse|curl|wget/i;
+const PAYLOAD_FIELDS = ['name', 'url', 'referrer', 'title', 'hostname', 'language', 'screen', 'tag', 'id'] as const;
+
+/**
+ * Check a request body against Umami's /api/send schema.
+ *
+ * @param body - Parsed request body
+ * @returns Why the body is invalid, or undefined when it is valid
+ */
+export function validateUmamiBody(body: unknown): string | undefined {
+    if (!body || typeof body !== 'object' || Array.isArray(body)) return 'body must be an object';
+
+    const { type, payload } = body as { type?: unknown; payload?: { [field: string]: unknown } };
+    if (type !== 'event' && type !== 'identify') return 'type must be "event" or "identify"';
+    if (!payload || typeof payload !== 'object' || Array.isArray(payload)) return 'payload must be an object';
+    if (typeof payload.website !== 'string' || !UUID_PATTERN.test(payload.website)) {
+        return 'payload.website must be a UUID';
+    }
+
+    for (const field of PAYLOAD_FIELDS) {
+        const value = payload[field];
+        if (value === undefined) continue;
+        if (typeof value !== 'string') return `payload.${field} must be a string`;
+        if (value.length > UMAMI_LIMITS[field]) return `payload.${field} exceeds ${UMAMI_LIMITS[field]} characters`;
+    }
+
+    const { data } = payload;
+    if (data !== undefined && (data === null || typeof data !== 'object' || Array.isArray(data))) {
+        return 'payload.data must be an object';
+    }
+
+    return undefined;
+}
+
+function readBody(request: IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+        let text = '';
+        request.setEncoding('utf8');
+        request.on('data', (chunk: string) => (text += chunk));
+        request.on('end', () => resolve(text));
+        request.on('error', reject);
+    });
+}
+
+function sendJson(response: ServerResponse, status: number, body: unknown): void {
+    response.writeHead(status, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(body));
+}
+
+/**
+ * Start a local stand-in for the Umami collector that implements /api/send and /api/batch.
+ * Bodies are validated against Umami's schema, valid events are recorded and answered with
+ * a session ID and cache token like Umami does. Call `simulate()` to answer with failures.
+ *
+ * @param options - Port (random by default), host and whether bot user agents are rejected
+ */
+export function startUmamiTestServer(options: UmamiTestServerOptions = {}): Promise<UmamiTestServer> {
+    const host = options.host || '127.0.0.1';
+    const detectBots = options.detectBots !== false;
+
+    let requests: ReceivedRequest[] = [];
+    let events: TrackedEvent[] = [];
+    let failures: { failure: SimulatedFailure; remaining: number }[] = [];
+    const sessions = new Map<string, { sessionId: string; visitId: string }>();
+
+    const nextFailure = (): SimulatedFailure | undefined => {
+        const next = failures[0];
+        if (!next) return undefined;
+        next.remaining -= 1;
+        if (next.remaining <= 0) {
+            failures.shift();
+        }
+        return next.failure;
+    };
+
+    // Sessions are keyed by the cache token, or by website and visitor like Umami's session hash
+    const getSession = (request: IncomingMessage, website: string) => {
+        const token = request.headers['x-umami-cache'];
+        if (typeof token === 'string' && sessions.has(token)) {
+            return { token, ...sessions.get(token)! };
+        }
+
+        const visitor = [website, request.headers['user-agent'], request.socket.remoteAddress].join('|');
+        const hash = createHash('sha256').update(visitor).digest('hex');
+        const sessionId = hash.slice(0, 32).replace(/^(.{8})(.{4})(.{4})(.{4})(.{12})$/, '$1-$2-$3-$4-$5');
+        const session = { sessionId, visitId: randomUUID() };
+        const cache = Buffer.from(JSON.stringify({ websiteId: website, ...session, iat: Date.now() })).toString('base64');
+        sessions.set(cache, session);
+        return { token: cache, ...session };
+    };
+
+    // Record a valid event and build its response, or return the validation error
+    const collect = (request: IncomingMessage, body: unknown): { response?: UmamiResponse; error?: string } => {
+        const error = validateUmamiBody(body);
+        if (error) return { error };
+
+        const entry = body as TrackedEvent;
+        events.push({ type: entry.type, payload: entry.payload });
+
+        const { token, sessionId, visitId } = getSession(request, entry.payload.website);
+        return { response: { cache: token, sessionId, visitId } };
+    };
+
+    const handle = (request: IncomingMessage, response: ServerResponse, received: ReceivedRequest) => {
+        response.setHeader('Access-Control-Allow-Origin', '*');
+        response.setHeader('Access-Control-Allow-Headers', '*');
+
+        if (request.method === 'OPTIONS') {
+            response.writeHead(204).end();
+            return;
+        }
+
+        if (request.method !== 'POST' || (received.path !== '/api/send' && received.path !== '/api/batch')) {
+            sendJson(response, 404, { error: 'Not found' });
+            return;
+        }
+
+        const failure = nextFailure();
+        if (failure === 'timeout') return;
+        if (typeof failure === 'number') {
+            sendJson(response, failure, { error: `Simulated status ${failure}` });
+            return;
+        }
+        if (typeof failure === 'object' && 'timeout' in failure) {
+            setTimeout(() => response.destroy(), failure.timeout);
+            return;
+        }
+        if (typeof failure === 'object' && 'status' in failure) {
+            sendJson(response, failure.status, failure.body ?? { error: `Simulated status ${failure.status}` });
+            return;
+        }
+
+        // Umami answers bots with a 200 and doesn't record anything
+        if (failure === 'bot' || (detectBots && BOT_PATTERN.test(request.headers['user-agent'] || ''))) {
+            sendJson(response, 200, { beep: 'boop' });
+            return;
+        }
+
+        if (received.path === '/api/send') {
+            const { response: result, error } = collect(request, received.body);
+            sendJson(response, error ? 400 : 200, error ? { error } : result);
+            return;
+        }
+
+        if (!Array.isArray(received.body)) {
+            sendJson(response, 400, { error: 'body must be an array' });
+            return;
+        }
+
+        const batch: UmamiBatchResponse = { size: received.body.length, processed: 0, errors: 0, details: [] };
+        received.body.forEach((entry, index) => {
+            const { response: result, error } = collect(request, entry);
+            if (error) {
+                batch.errors! += 1;
+                batch.details!.push({ index, response: { error } });
+            } else {
+                batch.processed! += 1;
+                batch.cache = result!.cache;
+            }
+        });
+        sendJson(response, 200, batch);
+    };
+
+    const server = createServer(async (request, response) => {
+        let text: string;
+        try {
+            text = await readBody(request);
+        } catch {
+            // The client aborted the request, nobody is left to answer
+            response.destroy();
+            return;
+        }
+
+        let body: unknown = text;
+        try {
+            body = text ? JSON.parse(text) : undefined;
+        } catch {
+            // Kept as text, rejected by validation
+        }
+
+        const received: ReceivedRequest = {
+            method: request.method || 'GET',
+            path: (request.url || '/').split('?')[0],
+            headers: request.headers,
+            body,
+        };
+        requests.push(received);
+        response.on('finish', () => (received.status = response.statusCode));
+
+        try {
+            handle(request, response, received);
+        } catch (error) {
+            sendJson(response, 500, { error: String(error) });
+        }
+    });
+
+    return new Promise((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(options.port || 0, host, () => {
+            const { port } = server.address() as AddressInfo;
+
+            resolve({
+                url: `http://${host}:${port}`,
+                port,
+
+                getTrackedEvents() {
+                    return [...events];
+                },
+
+                getRequests() {
+                    return [...requests];
+                },
+
+                simulate(failure, times = Infinity) {
+                    failures.push({ failure, remaining: times });
+                },
+
+                clear() {
+                    requests = [];
+                    events = [];
+                    failures = [];
+                    sessions.clear();
+                },
+
+                close() {
+                    return new Promise<void>((done, fail) => {
+                        server.close((error) => (error ? fail(error) : done()));
+                        server.closeAllConnections();
+                    });
+                },
+            });
+        });
+    });
+}
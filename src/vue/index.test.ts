@@ -0,0 +1,142 @@
+import { createApp, defineComponent, h, nextTick, ref, withDirectives, resolveDirective } from 'vue';
+import { UmamiPlugin, useUmami, getRoutePath, RouteLike } from './index';
+import { createUmamiClient, UmamiClient } from '../UmamiClient';
+import { Transport } from '../Transport';
+
+describe('Vue plugin', () => {
+  let transport: Transport;
+  let container: HTMLDivElement;
+
+  beforeEach(() => {
+    transport = { send: jest.fn().mockResolvedValue({ status: 200, data: {} }) };
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    history.replaceState(null, '', '/users/42?tab=posts');
+  });
+
+  afterEach(() => {
+    container.remove();
+  });
+
+  const config = () => ({ baseUrl: 'https://umami.is', websiteId: 'test-id', transport });
+
+  function sentPayloads() {
+    return (transport.send as jest.Mock).mock.calls.map(([request]) => request.body.payload);
+  }
+
+  function createRouter() {
+    const guards: ((to: RouteLike, from: RouteLike, failure?: unknown) => unknown)[] = [];
+    return {
+      afterEach: jest.fn((guard) => guards.push(guard)),
+      navigate(to: RouteLike, failure?: unknown) {
+        guards.forEach((guard) => guard(to, to, failure));
+      },
+    };
+  }
+
+  const userRoute: RouteLike = {
+    path: '/users/42',
+    fullPath: '/users/42?tab=posts',
+    matched: [{ path: '/users' }, { path: '/users/:id' }],
+  };
+
+  describe('getRoutePath', () => {
+    it('should use the route path by default', () => {
+      expect(getRoutePath(userRoute)).toBe('/users/42');
+    });
+
+    it('should use the matched path template when requested', () => {
+      expect(getRoutePath(userRoute, true)).toBe('/users/:id');
+    });
+  });
+
+  it('should track route changes', () => {
+    const router = createRouter();
+    const app = createApp({ render: () => null });
+    app.use(UmamiPlugin, { config: config(), router });
+
+    router.navigate(userRoute);
+
+    expect(sentPayloads()).toEqual([expect.objectContaining({ url: '/users/42?tab=posts' })]);
+  });
+
+  it('should log errors of route change tracking instead of rejecting', async () => {
+    const logger = { warn: jest.fn(), error: jest.fn() };
+    const router = createRouter();
+    const app = createApp({ render: () => null });
+    app.use(UmamiPlugin, { config: { ...config(), logger, validation: { strict: true, limits: { url: 3 } } }, router });
+
+    router.navigate(userRoute);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(logger.error).toHaveBeenCalledWith('Error tracking event:', expect.any(Error));
+  });
+
+  it('should track the route template when configured', () => {
+    const router = createRouter();
+    const app = createApp({ render: () => null });
+    app.use(UmamiPlugin, { config: { ...config(), excludeSearch: true }, router, useRouteTemplate: true });
+
+    router.navigate(userRoute);
+
+    expect(sentPayloads()).toEqual([expect.objectContaining({ url: '/users/:id' })]);
+  });
+
+  it('should not track failed navigations', () => {
+    const router = createRouter();
+    const app = createApp({ render: () => null });
+    app.use(UmamiPlugin, { config: config(), router });
+
+    router.navigate(userRoute, new Error('aborted'));
+
+    expect(transport.send).not.toHaveBeenCalled();
+  });
+
+  it('should provide the client through useUmami and $umami', () => {
+    const client = createUmamiClient(config());
+    let injected: UmamiClient | undefined;
+    let global: UmamiClient | undefined;
+    const app = createApp(
+      defineComponent({
+        setup() {
+          injected = useUmami();
+          return () => null;
+        },
+        mounted() {
+          global = this.$umami;
+        },
+      })
+    );
+
+    app.use(UmamiPlugin, { client });
+    app.mount(container);
+
+    expect(injected).toBe(client);
+    expect(global).toBe(client);
+    app.unmount();
+  });
+
+  it('should track clicks with the v-umami directive', async () => {
+    const eventValue = ref<any>('signup-click');
+    const app = createApp({
+      render() {
+        const umami = resolveDirective('umami')!;
+        return withDirectives(h('button', 'Go'), [[umami, eventValue.value]]);
+      },
+    });
+    app.use(UmamiPlugin, { config: config() });
+    app.mount(container);
+
+    container.querySelector('button')!.click();
+    eventValue.value = { name: 'plan-click', data: { plan: 'pro' } };
+    await nextTick();
+    container.querySelector('button')!.click();
+
+    expect(sentPayloads()).toEqual([
+      expect.objectContaining({ name: 'signup-click' }),
+      expect.objectContaining({ name: 'plan-click', data: { plan: 'pro' } }),
+    ]);
+
+    app.unmount();
+  });
+});
@@ -0,0 +1,122 @@
+import { App, Directive, InjectionKey, Plugin, inject } from 'vue';
+import { UmamiClient, EventCatalog, EventMap, createUmamiClient, trackInBackground } from '../UmamiClient';
+import { UmamiConfig, EventData } from '../UmamiLogger';
+
+// Minimal shape of a vue-router route, so vue-router stays optional
+export interface RouteLike {
+    path: string;
+    fullPath: string;
+    matched?: { path: string }[];
+}
+
+// Minimal shape of a vue-router router
+export interface RouterLike {
+    afterEach(guard: (to: RouteLike, from: RouteLike, failure?: unknown) => unknown): unknown;
+}
+
+// Options for UmamiPlugin
+export interface UmamiPluginOptions {
+    config?: UmamiConfig;
+    client?: UmamiClient;
+    router?: RouterLike;
+    useRouteTemplate?: boolean;
+}
+
+// Value of the v-umami directive
+export type UmamiDirectiveValue = string | { name: string; data?: EventData };
+
+export const UmamiKey: InjectionKey<UmamiClient> = Symbol('umami');
+
+/**
+ * Get the path to track for a route: the matched path template (e.g. `/users/:id`)
+ * when requested, otherwise the route's path. Query and hash are added by
+ * trackPageView according to excludeSearch/excludeHash, which yields the full path.
+ *
+ * @param route - The route navigated to
+ * @param useRouteTemplate - Whether to use the matched path template
+ */
+export function getRoutePath(route: RouteLike, useRouteTemplate = false): string {
+    if (useRouteTemplate && route.matched && route.matched.length > 0) {
+        return route.matched[route.matched.length - 1].path;
+    }
+    return route.path;
+}
+
+/**
+ * Create the v-umami directive, which tracks an event when the element is clicked.
+ *
+ * @param client - Client used to send the events
+ */
+export function createUmamiDirective(client: UmamiClient): Directive<HTMLElement, UmamiDirectiveValue> {
+    const handlers = new WeakMap<HTMLElement, { value: UmamiDirectiveValue; listener: () => void }>();
+
+    return {
+        mounted(el, binding) {
+            const entry = {
+                value: binding.value,
+                listener: () => {
+                    const value = entry.value;
+                    if (typeof value === 'string') {
+                        trackInBackground(client, client.trackEvent(value));
+                    } else if (value && value.name) {
+                        trackInBackground(client, client.trackEvent(value.name, value.data));
+                    }
+                },
+            };
+            handlers.set(el, entry);
+            el.addEventListener('click', entry.listener);
+        },
+        updated(el, binding) {
+            const entry = handlers.get(el);
+            if (entry) {
+                entry.value = binding.value;
+            }
+        },
+        unmounted(el) {
+            const entry = handlers.get(el);
+            if (entry) {
+                el.removeEventListener('click', entry.listener);
+                handlers.delete(el);
+            }
+        },
+    };
+}
+
+/**
+ * Vue 3 plugin. Provides the client to `inject`/`useUmami()` and `$umami`,
+ * registers the `v-umami` directive and tracks route changes when a router is given.
+ */
+export const UmamiPlugin: Plugin<[UmamiPluginOptions?]> = {
+    install(app: App, options: UmamiPluginOptions = {}) {
+        const client = options.client || createUmamiClient(options.config);
+
+        app.provide(UmamiKey, client);
+        app.config.globalProperties.$umami = client;
+        app.directive('umami', createUmamiDirective(client));
+
+        if (options.router) {
+            options.router.afterEach((to, _from, failure) => {
+                if (failure) return;
+                trackInBackground(client, client.trackPageView(getRoutePath(to, options.useRouteTemplate)));
+            });
+        }
+    },
+};
+
+/**
+ * Get the Umami client provided by UmamiPlugin.
+ * Pass the event catalog of the client as type argument to get typed tracking methods.
+ */
+export function useUmami<Events extends EventCatalog<Events> = EventMap>(): UmamiClient<Events> {
+    const client = inject(UmamiKey);
+    if (!client) {
+        throw new Error('useUmami must be used in an app that installed UmamiPlugin');
+    }
+    return client as unknown as UmamiClient<Events>;
+}
+
+declare module 'vue' {
+    interface ComponentCustomProperties {
+        $umami: UmamiClient;
+    }
+}